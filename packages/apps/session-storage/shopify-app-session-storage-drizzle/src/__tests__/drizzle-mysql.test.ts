@@ -39,6 +39,7 @@ const sessionTable = mysqlTable('session', {
   expires: timestamp('expires', {mode: 'date'}),
   accessToken: text('accessToken'),
   userId: bigint('userId', {mode: 'number'}),
+  customProperties: text('customProperties'),
 });
 
 describe('DrizzleSessionStorageMySQL', () => {
@@ -77,6 +78,7 @@ describe('DrizzleSessionStorageMySQL', () => {
     \`expires\` timestamp NULL,
     \`accessToken\` text,
     \`userId\` bigint,
+    \`customProperties\` text,
     CONSTRAINT \`session_id\` PRIMARY KEY (\`id\`)
   );
 `);
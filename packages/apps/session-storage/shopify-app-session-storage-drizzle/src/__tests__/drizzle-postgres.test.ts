@@ -32,6 +32,7 @@ const sessionTable = pgTable('session', {
   expires: timestamp('expires', {mode: 'date'}),
   accessToken: text('accessToken'),
   userId: bigint('userId', {mode: 'number'}),
+  customProperties: text('customProperties'),
 });
 
 describe('DrizzleSessionStoragePostgres', () => {
@@ -78,7 +79,8 @@ describe('DrizzleSessionStoragePostgres', () => {
       "scope" TEXT,
       "expires" TIMESTAMP,
       "accessToken" TEXT,
-      "userId" BIGINT
+      "userId" BIGINT,
+      "customProperties" TEXT
     )`);
 
     const drizzleDb = drizzle(client);
@@ -19,6 +19,7 @@ export const sessionTable = sqliteTable('session', {
   expires: text('expires'),
   accessToken: text('accessToken'),
   userId: blob('userId', {mode: 'bigint'}),
+  customProperties: text('customProperties'),
 });
 
 describe('SQLiteSessionStorage', () => {
@@ -40,7 +41,8 @@ describe('SQLiteSessionStorage', () => {
       "scope" text,
       "expires" text,
       "accessToken" text,
-      "userId" blob
+      "userId" blob,
+      "customProperties" text
     );`,
       )
       .run();
@@ -1,11 +1,20 @@
 import {Session} from '@shopify/shopify-api';
-import {SessionStorage} from '@shopify/shopify-app-session-storage';
+import {
+  DEFAULT_LIST_SESSIONS_LIMIT,
+  ListSessionsOptions,
+  SessionPage,
+  SessionStorage,
+  validateListSessionsLimit,
+} from '@shopify/shopify-app-session-storage';
 import {
   InferInsertModel,
   InferSelectModel,
+  asc,
   desc,
   eq,
+  gt,
   inArray,
+  lt,
 } from 'drizzle-orm';
 import {BaseSQLiteDatabase} from 'drizzle-orm/sqlite-core';
 
@@ -88,6 +97,44 @@ export class DrizzleSessionStorageSQLite implements SessionStorage {
     return sessions.map((session) => this.rowToSession(session));
   }
 
+  public async listSessions({
+    cursor,
+    limit = DEFAULT_LIST_SESSIONS_LIMIT,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    validateListSessionsLimit(limit);
+    // We fetch one extra row to know whether there is another page
+    const rows = await this.db
+      .select()
+      .from(this.sessionTable)
+      .where(
+        cursor === undefined ? undefined : gt(this.sessionTable.id, cursor),
+      )
+      .orderBy(asc(this.sessionTable.id))
+      .limit(limit + 1);
+
+    const sessions = rows.slice(0, limit).map((row) => this.rowToSession(row));
+
+    return {
+      sessions,
+      cursor:
+        rows.length > limit ? sessions[sessions.length - 1].id : undefined,
+    };
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    try {
+      await this.db
+        .delete(this.sessionTable)
+        .where(lt(this.sessionTable.expires, before.toISOString()));
+
+      return true;
+    } catch (error) {
+      console.error(error);
+
+      return false;
+    }
+  }
+
   private sessionToRow(session: Session): InferInsertModel<SQLiteSessionTable> {
     return {
       id: session.id,
@@ -98,6 +145,13 @@ export class DrizzleSessionStorageSQLite implements SessionStorage {
       expires: session.expires ? session.expires.toISOString() : null,
       accessToken: session.accessToken,
       userId: session.onlineAccessInfo?.associated_user.id as unknown as bigint,
+      // Tables only need the column if the app uses custom properties, but when they have it, it's always written so
+      // that clearing the custom properties clears the column
+      ...('customProperties' in this.sessionTable && {
+        customProperties: session.customProperties
+          ? JSON.stringify(session.customProperties)
+          : null,
+      }),
     };
   }
 
@@ -125,6 +179,10 @@ export class DrizzleSessionStorageSQLite implements SessionStorage {
       sessionParams.onlineAccessInfo = Number(row.userId);
     }
 
+    if ('customProperties' in row && row.customProperties) {
+      sessionParams.customProperties = row.customProperties as string;
+    }
+
     return Session.fromPropertyArray(Object.entries(sessionParams));
   }
 }
@@ -6,14 +6,26 @@ import {
   GetItemCommand,
   PutItemCommand,
   QueryCommand,
+  ScanCommand,
 } from '@aws-sdk/client-dynamodb';
 import {marshall, unmarshall} from '@aws-sdk/util-dynamodb';
 import {Session, SessionParams} from '@shopify/shopify-api';
-import {SessionStorage} from '@shopify/shopify-app-session-storage';
+import {
+  DEFAULT_LIST_SESSIONS_LIMIT,
+  ListSessionsOptions,
+  SessionPage,
+  SessionStorage,
+  validateListSessionsLimit,
+} from '@shopify/shopify-app-session-storage';
 
 export interface DynamoDBSessionStorageOptions {
   sessionTableName: string;
   shopIndexName: string;
+  /**
+   * The attribute that holds when sessions expire, in seconds since the epoch. Enable TTL on the table with this
+   * attribute for DynamoDB to delete expired sessions.
+   */
+  ttlAttributeName?: string;
   config?: DynamoDBClientConfig;
 }
 
@@ -22,12 +34,18 @@ const defaultDynamoDBSessionStorageOptions: DynamoDBSessionStorageOptions = {
   shopIndexName: 'shop_index',
 };
 
+const DEFAULT_TTL_ATTRIBUTE_NAME = 'expiresAt';
+
 export class DynamoDBSessionStorage implements SessionStorage {
   private client: DynamoDBClient;
-  private options: DynamoDBSessionStorageOptions;
+  private options: DynamoDBSessionStorageOptions & {ttlAttributeName: string};
 
   constructor(opts?: DynamoDBSessionStorageOptions) {
-    this.options = {...defaultDynamoDBSessionStorageOptions, ...opts};
+    this.options = {
+      ...defaultDynamoDBSessionStorageOptions,
+      ...opts,
+      ttlAttributeName: opts?.ttlAttributeName ?? DEFAULT_TTL_ATTRIBUTE_NAME,
+    };
     this.client = new DynamoDBClient({...this.options.config});
   }
 
@@ -94,6 +112,56 @@ export class DynamoDBSessionStorage implements SessionStorage {
     );
   }
 
+  public async listSessions({
+    cursor,
+    limit = DEFAULT_LIST_SESSIONS_LIMIT,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    validateListSessionsLimit(limit);
+    // Scans return items in a stable order, and the table's key is the session id, so the last id is the cursor
+    const result = await this.client.send(
+      new ScanCommand({
+        TableName: this.options.sessionTableName,
+        Limit: limit,
+        ExclusiveStartKey:
+          cursor === undefined ? undefined : this.serializeId(cursor),
+      }),
+    );
+
+    return {
+      sessions:
+        result.Items?.map((item) => this.deserializeSession(item)) || [],
+      cursor: result.LastEvaluatedKey
+        ? this.deserializeId(result.LastEvaluatedKey)
+        : undefined,
+    };
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    // Sessions are deleted by DynamoDB if TTL is enabled on the table, but it can take a few days after they expire
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined;
+    do {
+      const result = await this.client.send(
+        new ScanCommand({
+          TableName: this.options.sessionTableName,
+          FilterExpression: '#expires < :before',
+          ExpressionAttributeNames: {'#expires': 'expires'},
+          ExpressionAttributeValues: marshall({
+            ':before': before.toISOString(),
+          }),
+          ProjectionExpression: 'id',
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      await this.deleteSessions(
+        result.Items?.map((item) => this.deserializeId(item)) || [],
+      );
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return true;
+  }
+
   private serializeId(id: string): Record<string, AttributeValue> {
     return marshall({id});
   }
@@ -107,6 +175,9 @@ export class DynamoDBSessionStorage implements SessionStorage {
     const rawSession = {
       ...session.toObject(),
       expires: session.expires?.toISOString(),
+      [this.options.ttlAttributeName]: session.expires
+        ? Math.ceil(session.expires.getTime() / 1000)
+        : undefined,
     };
 
     return marshall(rawSession, {
@@ -116,6 +187,8 @@ export class DynamoDBSessionStorage implements SessionStorage {
 
   private deserializeSession(session: Record<string, AttributeValue>): Session {
     const rawSession = unmarshall(session) as SessionParams;
+    // The TTL attribute is only there for DynamoDB, it isn't part of the session
+    delete rawSession[this.options.ttlAttributeName];
 
     // Convert the ISO string back to a Date object
     return new Session({
@@ -1,4 +1,5 @@
 import {Miniflare} from 'miniflare';
+import {Session} from '@shopify/shopify-api';
 import {batteryOfTests} from '@shopify/shopify-app-session-storage-test-utils';
 
 import {KVSessionStorage} from '../kv';
@@ -6,6 +7,7 @@ import {KVSessionStorage} from '../kv';
 describe('KVSessionStorage', () => {
   let storage: KVSessionStorage | undefined;
   let mf: Miniflare;
+  let namespace: KVNamespace;
   beforeAll(async () => {
     mf = new Miniflare({
       scriptPath: `${__dirname}/kv-namespace-dummy-worker.ts`,
@@ -13,11 +15,9 @@ describe('KVSessionStorage', () => {
       modules: true,
     });
 
-    const namespace = await mf.getKVNamespace('KV_TEST_NAMESPACE');
-
     // The types from the package seem incorrect, but the implementation is correct. Ignoring the error
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
+    namespace = (await mf.getKVNamespace('KV_TEST_NAMESPACE')) as any;
+
     storage = new KVSessionStorage(namespace);
   });
 
@@ -26,4 +26,20 @@ describe('KVSessionStorage', () => {
   });
 
   batteryOfTests(async () => storage!);
+
+  it('sets an expiration on sessions that expire', async () => {
+    const expires = new Date(Date.now() + 60 * 60 * 1000);
+    await storage!.storeSession(
+      new Session({
+        id: 'expiring_session',
+        shop: 'shop',
+        state: 'state',
+        isOnline: true,
+        expires,
+      }),
+    );
+
+    const {keys} = await namespace.list({prefix: 'expiring_session'});
+    expect(keys[0].expiration).toBe(Math.ceil(expires.getTime() / 1000));
+  });
 });
@@ -1,5 +1,14 @@
 import {Session} from '@shopify/shopify-api';
-import {SessionStorage} from '@shopify/shopify-app-session-storage';
+import {
+  DEFAULT_LIST_SESSIONS_LIMIT,
+  ListSessionsOptions,
+  SessionPage,
+  SessionStorage,
+  validateListSessionsLimit,
+} from '@shopify/shopify-app-session-storage';
+
+const SHOP_SESSION_IDS_KEY_PREFIX = 'shop:';
+const MIN_EXPIRATION_TTL = 60;
 
 export class KVSessionStorage implements SessionStorage {
   private namespace: KVNamespace;
@@ -18,6 +27,9 @@ export class KVSessionStorage implements SessionStorage {
     await this.namespace.put(
       session.id,
       JSON.stringify(session.toPropertyArray()),
+      session.expires
+        ? {expiration: this.getExpiration(session.expires)}
+        : undefined,
     );
     await this.addShopIds(session.shop, [session.id]);
     return true;
@@ -61,13 +73,45 @@ export class KVSessionStorage implements SessionStorage {
       return [];
     }
 
-    return Promise.all(
-      sessionIds.map(async (id) => (await this.loadSession(id))!),
+    // Sessions that expired are removed by KV, but they stay in their shop's list
+    const sessions = await Promise.all(
+      sessionIds.map((id) => this.loadSession(id)),
+    );
+    return sessions.filter((session): session is Session => Boolean(session));
+  }
+
+  public async listSessions({
+    cursor,
+    limit = DEFAULT_LIST_SESSIONS_LIMIT,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    validateListSessionsLimit(limit);
+    const result = await this.namespace.list({cursor, limit});
+
+    // The namespace also holds the session ids for each shop, which aren't sessions themselves
+    const sessions = await Promise.all(
+      result.keys
+        .filter(({name}) => !name.startsWith(SHOP_SESSION_IDS_KEY_PREFIX))
+        .map(({name}) => this.loadSession(name)),
+    );
+
+    return {
+      sessions: sessions.filter((session): session is Session =>
+        Boolean(session),
+      ),
+      cursor: result.list_complete ? undefined : result.cursor,
+    };
+  }
+
+  private getExpiration(expires: Date): number {
+    // KV can only expire keys at least 60 seconds in the future
+    return Math.max(
+      Math.ceil(expires.getTime() / 1000),
+      Math.ceil(Date.now() / 1000) + MIN_EXPIRATION_TTL,
     );
   }
 
   private getShopSessionIdsKey(shop: string): string {
-    return `shop:${shop}`;
+    return `${SHOP_SESSION_IDS_KEY_PREFIX}${shop}`;
   }
 
   private async addShopIds(shop: string, ids: string[]) {
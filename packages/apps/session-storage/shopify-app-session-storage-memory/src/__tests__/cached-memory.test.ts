@@ -0,0 +1,13 @@
+import {batteryOfTests} from '@shopify/shopify-app-session-storage-test-utils';
+import {CachedSessionStorage} from '@shopify/shopify-app-session-storage';
+
+import {MemorySessionStorage} from '../memory';
+
+describe('CachedSessionStorage with MemorySessionStorage', () => {
+  let storage: CachedSessionStorage<MemorySessionStorage>;
+  beforeAll(async () => {
+    storage = new CachedSessionStorage(new MemorySessionStorage());
+  });
+
+  batteryOfTests(async () => storage, true);
+});
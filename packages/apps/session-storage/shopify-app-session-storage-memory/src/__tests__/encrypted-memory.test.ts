@@ -0,0 +1,15 @@
+import {batteryOfTests} from '@shopify/shopify-app-session-storage-test-utils';
+import {EncryptedSessionStorage} from '@shopify/shopify-app-session-storage';
+
+import {MemorySessionStorage} from '../memory';
+
+describe('EncryptedSessionStorage with MemorySessionStorage', () => {
+  let storage: EncryptedSessionStorage<MemorySessionStorage>;
+  beforeAll(async () => {
+    storage = new EncryptedSessionStorage(new MemorySessionStorage(), {
+      keys: [{id: 'test', key: Buffer.alloc(32, 1).toString('base64')}],
+    });
+  });
+
+  batteryOfTests(async () => storage, true);
+});
@@ -1,5 +1,11 @@
 import {Session} from '@shopify/shopify-api';
-import {SessionStorage} from '@shopify/shopify-app-session-storage';
+import {
+  DEFAULT_LIST_SESSIONS_LIMIT,
+  ListSessionsOptions,
+  SessionPage,
+  SessionStorage,
+  validateListSessionsLimit,
+} from '@shopify/shopify-app-session-storage';
 
 export class MemorySessionStorage implements SessionStorage {
   private sessions: Record<string, Session> = {};
@@ -31,4 +37,27 @@ export class MemorySessionStorage implements SessionStorage {
     );
     return results;
   }
+
+  public async listSessions({
+    cursor,
+    limit = DEFAULT_LIST_SESSIONS_LIMIT,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    validateListSessionsLimit(limit);
+    const ids = Object.keys(this.sessions)
+      .sort()
+      .filter((id) => cursor === undefined || id > cursor);
+    const pageIds = ids.slice(0, limit);
+
+    return {
+      sessions: pageIds.map((id) => this.sessions[id]),
+      cursor: ids.length > limit ? pageIds[pageIds.length - 1] : undefined,
+    };
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    Object.values(this.sessions)
+      .filter((session) => session.expires && session.expires < before)
+      .forEach((session) => delete this.sessions[session.id]);
+    return true;
+  }
 }
@@ -1,6 +1,12 @@
 import * as mongodb from 'mongodb';
 import {Session} from '@shopify/shopify-api';
-import {SessionStorage} from '@shopify/shopify-app-session-storage';
+import {
+  DEFAULT_LIST_SESSIONS_LIMIT,
+  ListSessionsOptions,
+  SessionPage,
+  SessionStorage,
+  validateListSessionsLimit,
+} from '@shopify/shopify-app-session-storage';
 
 export interface MongoDBSessionStorageOptions {
   sessionCollectionName: string;
@@ -87,6 +93,39 @@ export class MongoDBSessionStorage implements SessionStorage {
     return rawResults.map((rawResult: any) => new Session(rawResult));
   }
 
+  public async listSessions({
+    cursor,
+    limit = DEFAULT_LIST_SESSIONS_LIMIT,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    validateListSessionsLimit(limit);
+    await this.ready;
+
+    // We fetch one extra document to know whether there is another page
+    const rawResults = await this.collection
+      .find(cursor === undefined ? {} : {id: {$gt: cursor}})
+      .sort({id: 1})
+      .limit(limit + 1)
+      .toArray();
+
+    const sessions = rawResults
+      .slice(0, limit)
+      .map((rawResult: any) => new Session(rawResult));
+
+    return {
+      sessions,
+      cursor:
+        rawResults.length > limit
+          ? sessions[sessions.length - 1].id
+          : undefined,
+    };
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    await this.ready;
+    await this.collection.deleteMany({expires: {$lt: before}});
+    return true;
+  }
+
   public async disconnect(): Promise<void> {
     await this.client.close();
   }
@@ -102,6 +141,8 @@ export class MongoDBSessionStorage implements SessionStorage {
     await this.client.connect();
     await this.client.db().command({ping: 1});
     await this.createCollection();
+    // Deleting expired sessions filters on `expires`, so it needs an index. This is a no-op if it already exists.
+    await this.collection.createIndex({expires: 1});
   }
 
   private async hasSessionCollection(): Promise<boolean> {
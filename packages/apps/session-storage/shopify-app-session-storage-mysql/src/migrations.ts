@@ -7,6 +7,11 @@ export const migrationList = [
     'migrateScopeFieldToVarchar1024',
     migrateScopeFieldToVarchar1024,
   ),
+  new MigrationOperation('addExpiresIndex', addExpiresIndex),
+  new MigrationOperation(
+    'addCustomPropertiesColumn',
+    addCustomPropertiesColumn,
+  ),
 ];
 
 // need change the sizr of the scope column from 255 to 1024 char
@@ -16,3 +21,33 @@ export async function migrateScopeFieldToVarchar1024(
   await connection.query(`ALTER TABLE ${connection.sessionStorageIdentifier} 
       MODIFY COLUMN scope varchar(1024)`);
 }
+
+// need an index on expires to delete expired sessions efficiently
+export async function addExpiresIndex(
+  connection: MySqlConnection,
+): Promise<void> {
+  const indexName = `${connection.sessionStorageIdentifier}_expires`;
+
+  // MySQL has no CREATE INDEX IF NOT EXISTS, so skip tables that already have the index
+  const [rows] = await connection.query(
+    `SELECT INDEX_NAME FROM INFORMATION_SCHEMA.STATISTICS
+      WHERE TABLE_SCHEMA = ${connection.getArgumentPlaceholder()}
+        AND TABLE_NAME = ${connection.getArgumentPlaceholder()}
+        AND INDEX_NAME = ${connection.getArgumentPlaceholder()}`,
+    [connection.getDatabase(), connection.sessionStorageIdentifier, indexName],
+  );
+  if (Array.isArray(rows) && rows.length > 0) {
+    return;
+  }
+
+  await connection.query(`CREATE INDEX ${indexName}
+      ON ${connection.sessionStorageIdentifier} (expires)`);
+}
+
+// need a JSON column to store the custom properties of sessions
+export async function addCustomPropertiesColumn(
+  connection: MySqlConnection,
+): Promise<void> {
+  await connection.query(`ALTER TABLE ${connection.sessionStorageIdentifier}
+      ADD COLUMN customProperties json`);
+}
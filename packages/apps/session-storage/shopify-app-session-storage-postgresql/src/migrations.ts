@@ -8,6 +8,11 @@ export const migrationList = [
     migrateScopeFieldToVarchar1024,
   ),
   new MigrationOperation('migrateToCaseSensitivity', migrateToCaseSensitivity),
+  new MigrationOperation('addExpiresIndex', addExpiresIndex),
+  new MigrationOperation(
+    'addCustomPropertiesColumn',
+    addCustomPropertiesColumn,
+  ),
 ];
 
 // need change the size of the scope column from 255 to 1024 char
@@ -68,3 +73,19 @@ export async function migrateToCaseSensitivity(
     await connection.transaction(queries);
   }
 }
+
+// need an index on expires to delete expired sessions efficiently
+export async function addExpiresIndex(
+  connection: PostgresConnection,
+): Promise<void> {
+  await connection.query(`CREATE INDEX IF NOT EXISTS "${connection.sessionStorageIdentifier}_expires"
+    ON "${connection.sessionStorageIdentifier}" ("expires")`);
+}
+
+// need a JSON column to store the custom properties of sessions
+export async function addCustomPropertiesColumn(
+  connection: PostgresConnection,
+): Promise<void> {
+  await connection.query(`ALTER TABLE "${connection.sessionStorageIdentifier}"
+    ADD COLUMN IF NOT EXISTS "customProperties" json`);
+}
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Session_expires_idx" ON "Session"("expires");
+
+-- CreateIndex
+CREATE INDEX "MySession_expires_idx" ON "MySession"("expires");
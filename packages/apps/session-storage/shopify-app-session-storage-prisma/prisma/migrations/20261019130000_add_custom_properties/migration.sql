@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "MySession" ADD COLUMN "customProperties" TEXT;
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "customProperties" TEXT;
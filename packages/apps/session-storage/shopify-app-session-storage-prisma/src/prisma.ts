@@ -1,5 +1,11 @@
 import {Session} from '@shopify/shopify-api';
-import {SessionStorage} from '@shopify/shopify-app-session-storage';
+import {
+  DEFAULT_LIST_SESSIONS_LIMIT,
+  ListSessionsOptions,
+  SessionPage,
+  SessionStorage,
+  validateListSessionsLimit,
+} from '@shopify/shopify-app-session-storage';
 import type {PrismaClient, Session as Row} from '@prisma/client';
 import {Prisma} from '@prisma/client';
 
@@ -121,6 +127,13 @@ export class PrismaSessionStorage<T extends PrismaClient>
     return true;
   }
 
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    await this.ensureReady();
+    await this.getSessionTable().deleteMany({where: {expires: {lt: before}}});
+
+    return true;
+  }
+
   public async findSessionsByShop(shop: string): Promise<Session[]> {
     await this.ensureReady();
     const sessions = await this.getSessionTable().findMany({
@@ -132,6 +145,29 @@ export class PrismaSessionStorage<T extends PrismaClient>
     return sessions.map((session) => this.rowToSession(session));
   }
 
+  public async listSessions({
+    cursor,
+    limit = DEFAULT_LIST_SESSIONS_LIMIT,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    validateListSessionsLimit(limit);
+    await this.ensureReady();
+
+    // We fetch one extra row to know whether there is another page
+    const rows = await this.getSessionTable().findMany({
+      where: cursor === undefined ? undefined : {id: {gt: cursor}},
+      take: limit + 1,
+      orderBy: [{id: 'asc'}],
+    });
+
+    const sessions = rows.slice(0, limit).map((row) => this.rowToSession(row));
+
+    return {
+      sessions,
+      cursor:
+        rows.length > limit ? sessions[sessions.length - 1].id : undefined,
+    };
+  }
+
   public async isReady(): Promise<boolean> {
     try {
       await this.pollForTable();
@@ -190,7 +226,14 @@ export class PrismaSessionStorage<T extends PrismaClient>
         sessionParams.onlineAccessInfo?.associated_user.collaborator || false,
       emailVerified:
         sessionParams.onlineAccessInfo?.associated_user.email_verified || false,
-    };
+      // Apps only need the column if they use custom properties, but when the model has it, it's always written so
+      // that clearing the custom properties clears the column
+      ...('customProperties' in this.getSessionTable().fields && {
+        customProperties: session.customProperties
+          ? JSON.stringify(session.customProperties)
+          : null,
+      }),
+    } as Row;
   }
 
   private rowToSession(row: Row): Session {
@@ -230,6 +273,10 @@ export class PrismaSessionStorage<T extends PrismaClient>
       sessionParams.accessToken = row.accessToken;
     }
 
+    if (row.customProperties) {
+      sessionParams.customProperties = row.customProperties;
+    }
+
     return Session.fromPropertyArray(Object.entries(sessionParams), true);
   }
 
@@ -9,7 +9,11 @@ import {
 } from '@shopify/shopify-app-session-storage-test-utils';
 import {Session} from '@shopify/shopify-api';
 
-import {RedisSessionStorage} from '../redis';
+import {
+  RedisSessionCache,
+  RedisSessionStorage,
+  RedisWebhookIdempotencyStore,
+} from '../redis';
 
 import {v1_0_0SessionData} from './migration-test-data';
 
@@ -72,7 +76,7 @@ describe('RedisSessionStorage', () => {
         await storage?.disconnect();
       });
 
-      batteryOfTests(async () => storage!);
+      batteryOfTests(async () => storage!, false, true);
     });
 
     describe('migrateAddShopKeyToTrackSessionsByShop tests', () => {
@@ -269,6 +273,106 @@ describe('RedisSessionStorage', () => {
       ).toBeUndefined();
       await storage.disconnect();
     });
+
+    it(`sets an expiry on sessions that expire`, async () => {
+      const storage = new RedisSessionStorage(dbURL);
+      await storage.ready;
+      const session = new Session({
+        id: 'expiring_session',
+        shop: 'shop1.myshopify.com',
+        state: 'state',
+        isOnline: true,
+        scope: ['test_scope'].toString(),
+        accessToken: 'abcde-12345-123',
+        expires: new Date(Date.now() + 60 * 1000),
+      });
+
+      await storage.storeSession(session);
+
+      const ttl = await client.ttl('shopify_sessions_expiring_session');
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(60);
+      await storage.disconnect();
+    });
+
+    describe('RedisWebhookIdempotencyStore', () => {
+      let store: RedisWebhookIdempotencyStore | undefined;
+      beforeAll(async () => {
+        await client.flushDb();
+
+        store = new RedisWebhookIdempotencyStore(dbURL, {ttl: 1});
+        await store.ready;
+      });
+
+      afterAll(async () => {
+        await store?.disconnect();
+      });
+
+      it('only allows claiming a webhook once', async () => {
+        expect(await store!.claim('webhook-1')).toBe(true);
+        expect(await store!.claim('webhook-1')).toBe(false);
+        expect(await client.get('shopify_webhooks_webhook-1')).not.toBeNull();
+      });
+
+      it('allows claiming a webhook again after releasing it', async () => {
+        await store!.claim('webhook-2');
+        await store!.release('webhook-2');
+
+        expect(await store!.claim('webhook-2')).toBe(true);
+      });
+
+      it('allows claiming a webhook again after its record expires', async () => {
+        await store!.claim('webhook-3');
+        await wait(1100);
+
+        expect(await store!.claim('webhook-3')).toBe(true);
+      });
+    });
+
+    describe('RedisSessionCache', () => {
+      let cache: RedisSessionCache | undefined;
+      const session = new Session({
+        id: 'cached_session',
+        shop: 'shop',
+        state: 'state',
+        isOnline: false,
+        accessToken: '123',
+      });
+
+      beforeAll(async () => {
+        await client.flushDb();
+
+        cache = new RedisSessionCache(dbURL);
+        await cache.ready;
+      });
+
+      afterAll(async () => {
+        await cache?.disconnect();
+      });
+
+      it('returns cached sessions', async () => {
+        await cache!.set(session, 60);
+
+        expect(session.equals(await cache!.get(session.id))).toBe(true);
+        expect(
+          await client.get('shopify_session_cache_cached_session'),
+        ).not.toBeNull();
+      });
+
+      it('deletes cached sessions', async () => {
+        await cache!.set(session, 60);
+        await cache!.delete(session.id);
+
+        expect(await cache!.get(session.id)).toBeUndefined();
+      });
+
+      it('expires cached sessions', async () => {
+        await cache!.set(session, 1);
+        await wait(1100);
+
+        expect(await cache!.get(session.id)).toBeUndefined();
+      });
+    });
   });
 
   describe('using a redis client', () => {
@@ -34,10 +34,44 @@ export class RedisConnection implements DBConnection {
     return this.client.keys(name);
   }
 
+  async scan(cursor: number, match: string, count: number): Promise<any> {
+    return this.client.scan(cursor, {MATCH: match, COUNT: count});
+  }
+
+  async mGet(keys: string[]): Promise<any[]> {
+    // MGET fails without any keys
+    return keys.length > 0 ? this.client.mGet(keys) : [];
+  }
+
   async set(baseKey: string, value: any, addKeyPrefix = true) {
     await this.client.set(this.buildKey(baseKey, addKeyPrefix), value);
   }
 
+  async setWithExpiry(
+    baseKey: string,
+    value: any,
+    ttl: number,
+    addKeyPrefix = true,
+  ) {
+    await this.client.set(this.buildKey(baseKey, addKeyPrefix), value, {
+      EX: ttl,
+    });
+  }
+
+  async setIfNotExists(
+    baseKey: string,
+    value: any,
+    ttl: number,
+    addKeyPrefix = true,
+  ): Promise<boolean> {
+    const result = await this.client.set(
+      this.buildKey(baseKey, addKeyPrefix),
+      value,
+      {NX: true, EX: ttl},
+    );
+    return result !== null;
+  }
+
   async del(baseKey: string, addKeyPrefix = true): Promise<any> {
     return this.client.del(this.buildKey(baseKey, addKeyPrefix));
   }
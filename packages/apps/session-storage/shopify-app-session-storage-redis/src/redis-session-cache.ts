@@ -0,0 +1,68 @@
+import {RedisClientOptions, createClient} from 'redis';
+import {Session} from '@shopify/shopify-api';
+import {SessionCache} from '@shopify/shopify-app-session-storage';
+
+import {RedisConnection} from './redis-connection';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+export interface RedisSessionCacheOptions extends RedisClientOptions {
+  keyPrefix: string;
+}
+
+const defaultRedisSessionCacheOptions: RedisSessionCacheOptions = {
+  keyPrefix: 'shopify_session_cache',
+};
+
+/**
+ * Caches sessions in Redis for `CachedSessionStorage`, so the cache is shared by all instances of the app.
+ */
+export class RedisSessionCache implements SessionCache {
+  public readonly ready: Promise<void>;
+  private options: RedisSessionCacheOptions;
+  private client: RedisConnection;
+
+  constructor(
+    urlOrClient: URL | string | RedisClient,
+    opts: Partial<RedisSessionCacheOptions> = {},
+  ) {
+    this.options = {...defaultRedisSessionCacheOptions, ...opts};
+    this.ready = this.init(urlOrClient);
+  }
+
+  public async get(id: string): Promise<Session | undefined> {
+    await this.ready;
+
+    const rawResult = await this.client.get(id);
+    if (!rawResult) return undefined;
+
+    return Session.fromPropertyArray(JSON.parse(rawResult), true);
+  }
+
+  public async set(session: Session, ttl: number): Promise<void> {
+    await this.ready;
+
+    // Redis expires the key on its own, so the TTL is handled by the database
+    await this.client.setWithExpiry(
+      session.id,
+      JSON.stringify(session.toPropertyArray(true)),
+      ttl,
+    );
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.ready;
+    await this.client.del(id);
+  }
+
+  public async disconnect(): Promise<void> {
+    await this.client.disconnect();
+  }
+
+  private async init(urlOrClient: URL | string | RedisClient) {
+    const {keyPrefix, ...clientOptions} = this.options;
+
+    this.client = new RedisConnection(urlOrClient, clientOptions, keyPrefix);
+    await this.client.connect();
+  }
+}
@@ -0,0 +1,62 @@
+import {RedisClientOptions, createClient} from 'redis';
+import {
+  DEFAULT_WEBHOOK_IDEMPOTENCY_TTL,
+  WebhookIdempotencyStore,
+} from '@shopify/shopify-api';
+
+import {RedisConnection} from './redis-connection';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+export interface RedisWebhookIdempotencyStoreOptions
+  extends RedisClientOptions {
+  keyPrefix: string;
+  ttl: number;
+}
+
+const defaultRedisWebhookIdempotencyStoreOptions: RedisWebhookIdempotencyStoreOptions =
+  {
+    keyPrefix: 'shopify_webhooks',
+    ttl: DEFAULT_WEBHOOK_IDEMPOTENCY_TTL,
+  };
+
+export class RedisWebhookIdempotencyStore implements WebhookIdempotencyStore {
+  public readonly ready: Promise<void>;
+  private options: RedisWebhookIdempotencyStoreOptions;
+  private client: RedisConnection;
+
+  constructor(
+    urlOrClient: URL | string | RedisClient,
+    opts: Partial<RedisWebhookIdempotencyStoreOptions> = {},
+  ) {
+    this.options = {...defaultRedisWebhookIdempotencyStoreOptions, ...opts};
+    this.ready = this.init(urlOrClient);
+  }
+
+  public async claim(webhookId: string): Promise<boolean> {
+    await this.ready;
+
+    // Redis expires the key on its own, so the TTL is handled by the database
+    return this.client.setIfNotExists(
+      webhookId,
+      Date.now().toString(),
+      this.options.ttl,
+    );
+  }
+
+  public async release(webhookId: string): Promise<void> {
+    await this.ready;
+    await this.client.del(webhookId);
+  }
+
+  public async disconnect(): Promise<void> {
+    await this.client.disconnect();
+  }
+
+  private async init(urlOrClient: URL | string | RedisClient) {
+    const {keyPrefix, ttl: _ttl, ...clientOptions} = this.options;
+
+    this.client = new RedisConnection(urlOrClient, clientOptions, keyPrefix);
+    await this.client.connect();
+  }
+}
@@ -1,15 +1,22 @@
 import {RedisClientOptions, createClient} from 'redis';
 import {Session} from '@shopify/shopify-api';
 import {
+  DEFAULT_LIST_SESSIONS_LIMIT,
+  ListSessionsOptions,
+  SessionPage,
   SessionStorage,
   SessionStorageMigratorOptions,
   SessionStorageMigrator,
+  validateListSessionsLimit,
 } from '@shopify/shopify-app-session-storage';
 
 import {migrationList} from './migrations';
 import {RedisConnection} from './redis-connection';
 import {RedisSessionStorageMigrator} from './redis-migrator';
 
+export * from './redis-webhook-idempotency-store';
+export * from './redis-session-cache';
+
 type RedisClient = ReturnType<typeof createClient>;
 
 /* eslint-disable @shopify/typescript/prefer-pascal-case-enums */
@@ -33,6 +40,9 @@ const defaultRedisSessionStorageOptions: RedisSessionStorageOptions = {
   },
 };
 
+// How many keys deleteExpiredSessions reads at a time
+const DEFAULT_SCAN_COUNT = 100;
+
 export class RedisSessionStorage implements SessionStorage {
   static withCredentials(
     host: string,
@@ -90,10 +100,17 @@ export class RedisSessionStorage implements SessionStorage {
   public async storeSession(session: Session): Promise<boolean> {
     await this.ready;
 
-    await this.client.set(
-      session.id,
-      JSON.stringify(session.toPropertyArray(true)),
-    );
+    const value = JSON.stringify(session.toPropertyArray(true));
+    if (session.expires) {
+      // Redis removes expired sessions by itself, but they stay in their shop's list until they're deleted
+      await this.client.setWithExpiry(
+        session.id,
+        value,
+        Math.max(1, Math.ceil((session.expires.getTime() - Date.now()) / 1000)),
+      );
+    } else {
+      await this.client.set(session.id, value);
+    }
     await this.addKeyToShopList(session);
     return true;
   }
@@ -144,10 +161,76 @@ export class RedisSessionStorage implements SessionStorage {
     return results;
   }
 
+  public async listSessions({
+    cursor,
+    limit = DEFAULT_LIST_SESSIONS_LIMIT,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    validateListSessionsLimit(limit);
+    await this.ready;
+
+    // The cursor is the SCAN cursor to continue from, so a page holds whole batches, which can go past the limit
+    let scanCursor = cursor ? Number(cursor) : 0;
+    const sessions: Session[] = [];
+    do {
+      const batch = await this.scanSessions(
+        scanCursor,
+        limit - sessions.length,
+      );
+      sessions.push(...batch.sessions);
+      scanCursor = batch.cursor;
+    } while (scanCursor !== 0 && sessions.length < limit);
+
+    return {
+      sessions,
+      cursor: scanCursor === 0 ? undefined : String(scanCursor),
+    };
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    await this.ready;
+
+    // Sessions stored with an expiry are removed by Redis, but they may have been stored before expiries were set
+    let cursor = 0;
+    do {
+      const batch = await this.scanSessions(cursor, DEFAULT_SCAN_COUNT);
+      for (const session of batch.sessions) {
+        if (session.expires && session.expires < before) {
+          await this.deleteSession(session.id);
+        }
+      }
+
+      cursor = batch.cursor;
+    } while (cursor !== 0);
+
+    return true;
+  }
+
   public async disconnect(): Promise<void> {
     await this.client.disconnect();
   }
 
+  /**
+   * Reads a batch of keys with SCAN, and loads their values with a single MGET. Keys that don't hold a session, like
+   * the lists of session ids for each shop, are skipped.
+   */
+  private async scanSessions(
+    cursor: number,
+    count: number,
+  ): Promise<{cursor: number; sessions: Session[]}> {
+    const batch = await this.client.scan(
+      cursor,
+      this.client.generateFullKey('*'),
+      count,
+    );
+    const values = await this.client.mGet(batch.keys);
+
+    const sessions = values
+      .map(sessionFromValue)
+      .filter((session): session is Session => Boolean(session));
+
+    return {cursor: batch.cursor, sessions};
+  }
+
   private async addKeyToShopList(session: Session) {
     const shopKey = session.shop;
     const idKey = this.client.generateFullKey(session.id);
@@ -190,3 +273,13 @@ export class RedisSessionStorage implements SessionStorage {
     await this.client.connect();
   }
 }
+
+function sessionFromValue(value: string | null): Session | undefined {
+  if (!value) return undefined;
+
+  // Shop lists share the key prefix with sessions, but they're arrays of keys rather than arrays of properties
+  const propertyArray = JSON.parse(value);
+  return Array.isArray(propertyArray[0])
+    ? Session.fromPropertyArray(propertyArray, true)
+    : undefined;
+}
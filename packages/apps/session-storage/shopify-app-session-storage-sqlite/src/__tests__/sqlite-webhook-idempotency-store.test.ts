@@ -0,0 +1,52 @@
+import * as fs from 'fs/promises';
+
+import {SQLiteWebhookIdempotencyStore} from '../sqlite';
+
+describe('SQLiteWebhookIdempotencyStore', () => {
+  const sqliteDbFile = './sqlite-webhooks.testDb';
+  let store: SQLiteWebhookIdempotencyStore;
+
+  beforeEach(async () => {
+    await fs.rm(sqliteDbFile, {force: true});
+    store = new SQLiteWebhookIdempotencyStore(sqliteDbFile, {ttl: 60});
+  });
+
+  afterAll(async () => {
+    await fs.rm(sqliteDbFile, {force: true});
+  });
+
+  it('only allows claiming a webhook once', async () => {
+    expect(await store.claim('123')).toBe(true);
+    expect(await store.claim('123')).toBe(false);
+    expect(await store.claim('456')).toBe(true);
+  });
+
+  it('allows claiming a webhook again after releasing it', async () => {
+    await store.claim('123');
+    await store.release('123');
+
+    expect(await store.claim('123')).toBe(true);
+  });
+
+  it('allows claiming a webhook again after its record expires', async () => {
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await store.claim('123');
+
+    dateSpy.mockReturnValue(now + 59 * 1000);
+    expect(await store.claim('123')).toBe(false);
+
+    dateSpy.mockReturnValue(now + 60 * 1000);
+    expect(await store.claim('123')).toBe(true);
+
+    dateSpy.mockRestore();
+  });
+
+  it('shares records between instances', async () => {
+    const otherStore = new SQLiteWebhookIdempotencyStore(sqliteDbFile);
+
+    expect(await store.claim('123')).toBe(true);
+    expect(await otherStore.claim('123')).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs/promises';
+
+import {SQLiteWebhookJobQueue} from '../sqlite';
+
+const JOB_DATA = {
+  topic: 'PRODUCTS_CREATE',
+  domain: 'shop1.myshopify.io',
+  body: '{"foo": "bar"}',
+  webhookId: '123456789',
+  apiVersion: '2023-01',
+};
+
+describe('SQLiteWebhookJobQueue', () => {
+  const sqliteDbFile = './sqlite-webhook-jobs.testDb';
+  let queue: SQLiteWebhookJobQueue;
+
+  beforeEach(async () => {
+    await fs.rm(sqliteDbFile, {force: true});
+    queue = new SQLiteWebhookJobQueue(sqliteDbFile);
+  });
+
+  afterAll(async () => {
+    await fs.rm(sqliteDbFile, {force: true});
+  });
+
+  it('returns due jobs in order, and hides them until the lock expires', async () => {
+    const first = await queue.enqueue({...JOB_DATA, subTopic: 'sub:topic'});
+    const second = await queue.enqueue({...JOB_DATA, webhookId: '987654321'});
+
+    const lockUntil = Date.now() + 60000;
+    expect(await queue.dequeue(lockUntil)).toEqual({
+      ...first,
+      attempts: 1,
+      runAt: lockUntil,
+    });
+    expect((await queue.dequeue(lockUntil))?.id).toEqual(second.id);
+    expect(await queue.dequeue(lockUntil)).toBeUndefined();
+  });
+
+  it('schedules retries and removes completed jobs', async () => {
+    const job = await queue.enqueue(JOB_DATA);
+    await queue.dequeue(Date.now());
+
+    const runAt = Date.now() + 60000;
+    await queue.retry(job.id, runAt, 'Something went wrong');
+    expect(await queue.dequeue(Date.now())).toBeUndefined();
+
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(runAt);
+    expect(await queue.dequeue(runAt)).toEqual(
+      expect.objectContaining({
+        id: job.id,
+        attempts: 2,
+        lastError: 'Something went wrong',
+      }),
+    );
+    dateSpy.mockRestore();
+
+    await queue.complete(job.id);
+    expect(await queue.dequeue(runAt)).toBeUndefined();
+  });
+
+  it('moves jobs to the dead-letter list and replays them', async () => {
+    const job = await queue.enqueue(JOB_DATA);
+
+    await queue.dequeue(Date.now());
+    await queue.deadLetter(job.id, 'Something went wrong');
+
+    expect(await queue.dequeue(Date.now())).toBeUndefined();
+    expect(await queue.listDeadLetters()).toEqual([
+      expect.objectContaining({id: job.id, lastError: 'Something went wrong'}),
+    ]);
+
+    await queue.replay(job.id);
+
+    expect(await queue.listDeadLetters()).toEqual([]);
+    expect(await queue.dequeue(Date.now())).toEqual(
+      expect.objectContaining({id: job.id, attempts: 1}),
+    );
+  });
+
+  it('shares jobs between instances', async () => {
+    const otherQueue = new SQLiteWebhookJobQueue(sqliteDbFile);
+
+    const job = await queue.enqueue(JOB_DATA);
+
+    const lockUntil = Date.now() + 60000;
+    expect((await otherQueue.dequeue(lockUntil))?.id).toEqual(job.id);
+    expect(await queue.dequeue(lockUntil)).toBeUndefined();
+  });
+});
@@ -7,6 +7,11 @@ export const migrationList = [
     'migrateScopeFieldToVarchar1024',
     migrateScopeFieldToVarchar1024,
   ),
+  new MigrationOperation('addExpiresIndex', addExpiresIndex),
+  new MigrationOperation(
+    'addCustomPropertiesColumn',
+    addCustomPropertiesColumn,
+  ),
 ];
 
 // need to migrate exisiting scope from varchar 255 to varchar 1024
@@ -52,3 +57,20 @@ async function migrateScopeFieldToVarchar1024(
 
   await connection.executeRawQuery('COMMIT');
 }
+
+// need an index on expires to delete expired sessions efficiently
+async function addExpiresIndex(connection: SqliteConnection): Promise<void> {
+  await connection.query(`
+    CREATE INDEX IF NOT EXISTS ${connection.sessionStorageIdentifier}_expires
+      ON ${connection.sessionStorageIdentifier} (expires);
+  `);
+}
+
+// need a JSON column to store the custom properties of sessions
+async function addCustomPropertiesColumn(
+  connection: SqliteConnection,
+): Promise<void> {
+  await connection.query(`
+    ALTER TABLE ${connection.sessionStorageIdentifier} ADD COLUMN customProperties text;
+  `);
+}
@@ -0,0 +1,85 @@
+import {
+  DEFAULT_WEBHOOK_IDEMPOTENCY_TTL,
+  WebhookIdempotencyStore,
+} from '@shopify/shopify-api';
+import sqlite3 from 'sqlite3';
+
+import {SqliteConnection} from './sqlite-connection';
+
+export interface SQLiteWebhookIdempotencyStoreOptions {
+  tableName: string;
+  ttl: number;
+}
+
+const defaultSQLiteWebhookIdempotencyStoreOptions: SQLiteWebhookIdempotencyStoreOptions =
+  {
+    tableName: 'shopify_webhooks',
+    ttl: DEFAULT_WEBHOOK_IDEMPOTENCY_TTL,
+  };
+
+export class SQLiteWebhookIdempotencyStore implements WebhookIdempotencyStore {
+  public readonly ready: Promise<void>;
+  private options: SQLiteWebhookIdempotencyStoreOptions;
+  private db: SqliteConnection;
+
+  constructor(
+    database: string | sqlite3.Database,
+    opts: Partial<SQLiteWebhookIdempotencyStoreOptions> = {},
+  ) {
+    this.options = {...defaultSQLiteWebhookIdempotencyStoreOptions, ...opts};
+    this.db = new SqliteConnection(database, this.options.tableName);
+    this.ready = this.init();
+  }
+
+  public async claim(webhookId: string): Promise<boolean> {
+    await this.ready;
+
+    // Note milliseconds to seconds conversion for `expires` column
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.db.query(
+      `
+      DELETE FROM ${this.options.tableName}
+      WHERE id = ${this.db.getArgumentPlaceholder()}
+      AND expires <= ${this.db.getArgumentPlaceholder()};
+    `,
+      [webhookId, now],
+    );
+
+    const rows = await this.db.query(
+      `
+      INSERT OR IGNORE INTO ${this.options.tableName} (id, expires)
+      VALUES (${this.db.getArgumentPlaceholder()}, ${this.db.getArgumentPlaceholder()})
+      RETURNING id;
+    `,
+      [webhookId, now + this.options.ttl],
+    );
+
+    return rows.length === 1;
+  }
+
+  public async release(webhookId: string): Promise<void> {
+    await this.ready;
+
+    await this.db.query(
+      `
+      DELETE FROM ${this.options.tableName}
+      WHERE id = ${this.db.getArgumentPlaceholder()};
+    `,
+      [webhookId],
+    );
+  }
+
+  public async disconnect(): Promise<void> {
+    await this.db.disconnect();
+  }
+
+  private async init() {
+    await this.db.executeRawQuery(`
+      CREATE TABLE IF NOT EXISTS ${this.options.tableName} (
+        id varchar(255) NOT NULL PRIMARY KEY,
+        expires integer NOT NULL
+      );
+    `);
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  WebhookJob,
+  WebhookJobData,
+  WebhookJobQueue,
+} from '@shopify/shopify-api';
+import sqlite3 from 'sqlite3';
+
+import {SqliteConnection} from './sqlite-connection';
+
+export interface SQLiteWebhookJobQueueOptions {
+  tableName: string;
+}
+
+const defaultSQLiteWebhookJobQueueOptions: SQLiteWebhookJobQueueOptions = {
+  tableName: 'shopify_webhook_jobs',
+};
+
+export class SQLiteWebhookJobQueue implements WebhookJobQueue {
+  public readonly ready: Promise<void>;
+  private options: SQLiteWebhookJobQueueOptions;
+  private db: SqliteConnection;
+
+  constructor(
+    database: string | sqlite3.Database,
+    opts: Partial<SQLiteWebhookJobQueueOptions> = {},
+  ) {
+    this.options = {...defaultSQLiteWebhookJobQueueOptions, ...opts};
+    this.db = new SqliteConnection(database, this.options.tableName);
+    this.ready = this.init();
+  }
+
+  public async enqueue(data: WebhookJobData): Promise<WebhookJob> {
+    await this.ready;
+
+    const entries: [string, string | number | null][] = [
+      ['topic', data.topic],
+      ['domain', data.domain],
+      ['body', data.body],
+      ['webhookId', data.webhookId],
+      ['apiVersion', data.apiVersion],
+      ['subTopic', data.subTopic ?? null],
+      ['attempts', 0],
+      ['runAt', Date.now()],
+      ['deadLetter', 0],
+    ];
+
+    const rows = await this.db.query(
+      `
+      INSERT INTO ${this.options.tableName}
+      (${entries.map(([key]) => key).join(', ')})
+      VALUES (${entries
+        .map(() => `${this.db.getArgumentPlaceholder()}`)
+        .join(', ')})
+      RETURNING *;
+    `,
+      entries.map(([_key, value]) => value),
+    );
+
+    return this.databaseRowToJob(rows[0]);
+  }
+
+  public async dequeue(lockUntil: number): Promise<WebhookJob | undefined> {
+    await this.ready;
+
+    const rows = await this.db.query(
+      `
+      UPDATE ${this.options.tableName}
+      SET attempts = attempts + 1, runAt = ${this.db.getArgumentPlaceholder()}
+      WHERE id = (
+        SELECT id FROM ${this.options.tableName}
+        WHERE deadLetter = 0 AND runAt <= ${this.db.getArgumentPlaceholder()}
+        ORDER BY runAt, id
+        LIMIT 1
+      )
+      RETURNING *;
+    `,
+      [lockUntil, Date.now()],
+    );
+
+    return rows.length === 1 ? this.databaseRowToJob(rows[0]) : undefined;
+  }
+
+  public async complete(jobId: string): Promise<void> {
+    await this.ready;
+
+    await this.db.query(
+      `
+      DELETE FROM ${this.options.tableName}
+      WHERE id = ${this.db.getArgumentPlaceholder()};
+    `,
+      [jobId],
+    );
+  }
+
+  public async retry(
+    jobId: string,
+    runAt: number,
+    error: string,
+  ): Promise<void> {
+    await this.ready;
+
+    await this.db.query(
+      `
+      UPDATE ${this.options.tableName}
+      SET runAt = ${this.db.getArgumentPlaceholder()}, lastError = ${this.db.getArgumentPlaceholder()}
+      WHERE id = ${this.db.getArgumentPlaceholder()};
+    `,
+      [runAt, error, jobId],
+    );
+  }
+
+  public async deadLetter(jobId: string, error: string): Promise<void> {
+    await this.ready;
+
+    await this.db.query(
+      `
+      UPDATE ${this.options.tableName}
+      SET deadLetter = 1, lastError = ${this.db.getArgumentPlaceholder()}
+      WHERE id = ${this.db.getArgumentPlaceholder()};
+    `,
+      [error, jobId],
+    );
+  }
+
+  public async listDeadLetters(): Promise<WebhookJob[]> {
+    await this.ready;
+
+    const rows = await this.db.query(`
+      SELECT * FROM ${this.options.tableName}
+      WHERE deadLetter = 1
+      ORDER BY id;
+    `);
+
+    return rows.map((row: any) => this.databaseRowToJob(row));
+  }
+
+  public async replay(jobId: string): Promise<void> {
+    await this.ready;
+
+    await this.db.query(
+      `
+      UPDATE ${this.options.tableName}
+      SET deadLetter = 0, attempts = 0, runAt = ${this.db.getArgumentPlaceholder()}
+      WHERE id = ${this.db.getArgumentPlaceholder()} AND deadLetter = 1;
+    `,
+      [Date.now(), jobId],
+    );
+  }
+
+  public async disconnect(): Promise<void> {
+    await this.db.disconnect();
+  }
+
+  private async init() {
+    await this.db.executeRawQuery(`
+      CREATE TABLE IF NOT EXISTS ${this.options.tableName} (
+        id integer PRIMARY KEY AUTOINCREMENT,
+        topic varchar(255) NOT NULL,
+        domain varchar(255) NOT NULL,
+        body text NOT NULL,
+        webhookId varchar(255) NOT NULL,
+        apiVersion varchar(255) NOT NULL,
+        subTopic varchar(255),
+        attempts integer NOT NULL,
+        runAt integer NOT NULL,
+        lastError text,
+        deadLetter integer NOT NULL
+      );
+    `);
+  }
+
+  private databaseRowToJob(row: any): WebhookJob {
+    const job: WebhookJob = {
+      id: String(row.id),
+      topic: row.topic,
+      domain: row.domain,
+      body: row.body,
+      webhookId: row.webhookId,
+      apiVersion: row.apiVersion,
+      attempts: row.attempts,
+      runAt: row.runAt,
+    };
+
+    if (row.subTopic) job.subTopic = row.subTopic;
+    if (row.lastError) job.lastError = row.lastError;
+
+    return job;
+  }
+}
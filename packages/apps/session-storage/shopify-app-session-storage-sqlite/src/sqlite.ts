@@ -2,6 +2,10 @@ import {Session} from '@shopify/shopify-api';
 import {
   SessionStorage,
   RdbmsSessionStorageOptions,
+  DEFAULT_LIST_SESSIONS_LIMIT,
+  ListSessionsOptions,
+  SessionPage,
+  validateListSessionsLimit,
 } from '@shopify/shopify-app-session-storage';
 import sqlite3 from 'sqlite3';
 
@@ -9,6 +13,9 @@ import {SqliteConnection} from './sqlite-connection';
 import {migrationList} from './migrations';
 import {SqliteSessionStorageMigrator} from './sqlite-migrator';
 
+export * from './sqlite-webhook-idempotency-store';
+export * from './sqlite-webhook-job-queue';
+
 export interface SQLiteSessionStorageOptions
   extends RdbmsSessionStorageOptions {}
 
@@ -118,6 +125,48 @@ export class SQLiteSessionStorage implements SessionStorage {
     return results;
   }
 
+  public async listSessions({
+    cursor,
+    limit = DEFAULT_LIST_SESSIONS_LIMIT,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    validateListSessionsLimit(limit);
+    await this.ready;
+
+    // We fetch one extra row to know whether there is another page
+    const query = `
+      SELECT * FROM ${this.options.sessionTableName}
+      ${cursor === undefined ? '' : `WHERE id > ${this.db.getArgumentPlaceholder()}`}
+      ORDER BY id
+      LIMIT ${Math.floor(limit) + 1};
+    `;
+    const rows = await this.db.query(
+      query,
+      cursor === undefined ? [] : [cursor],
+    );
+
+    const sessions = rows
+      .slice(0, limit)
+      .map((row: any) => this.databaseRowToSession(row));
+
+    return {
+      sessions,
+      cursor:
+        rows.length > limit ? sessions[sessions.length - 1].id : undefined,
+    };
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    await this.ready;
+
+    // Note milliseconds to seconds conversion for `expires` property
+    const query = `
+      DELETE FROM ${this.options.sessionTableName}
+      WHERE expires < ${this.db.getArgumentPlaceholder()};
+    `;
+    await this.db.query(query, [Math.floor(before.getTime() / 1000)]);
+    return true;
+  }
+
   private async init() {
     const hasSessionTable = await this.db.hasTable(
       this.options.sessionTableName,
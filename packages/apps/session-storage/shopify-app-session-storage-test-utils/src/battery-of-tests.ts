@@ -8,6 +8,8 @@ const testScopes = ['test_scope'];
 export function batteryOfTests(
   storageFactory: () => Promise<SessionStorage>,
   testUserInfo = false,
+  // Storages that page through a database cursor may return more sessions than the limit
+  listSessionsLimitIsHint = false,
 ) {
   it('can store and delete all kinds of sessions', async () => {
     const sessionFactories = [
@@ -339,4 +341,155 @@ export function batteryOfTests(
     const storedSession = await storage.loadSession(sessionId);
     expect(session.equals(storedSession)).toBeTruthy();
   });
+
+  it('can store sessions with custom properties', async () => {
+    const storage = await storageFactory();
+    const sessionId = 'custom_properties_session';
+    const session = new Session({
+      id: sessionId,
+      shop: 'shop',
+      state: 'state',
+      isOnline: false,
+      accessToken: '123',
+      customProperties: {
+        planTier: 'plus',
+        refreshToken: {expiresAt: 1700000000, rotated: false},
+        locales: ['en', 'fr'],
+        trialEndsAt: null,
+      },
+    });
+
+    await expect(storage.storeSession(session)).resolves.toBeTruthy();
+    const storedSession = await storage.loadSession(sessionId);
+    expect(session.equals(storedSession)).toBeTruthy();
+    expect(storedSession?.customProperties).toEqual(session.customProperties);
+
+    await expect(storage.deleteSession(sessionId)).resolves.toBeTruthy();
+  });
+
+  it('can clear custom properties', async () => {
+    const storage = await storageFactory();
+    const sessionId = 'cleared_custom_properties_session';
+    const session = new Session({
+      id: sessionId,
+      shop: 'shop',
+      state: 'state',
+      isOnline: false,
+      accessToken: '123',
+      customProperties: {planTier: 'plus'},
+    });
+    await expect(storage.storeSession(session)).resolves.toBeTruthy();
+
+    session.customProperties = undefined;
+    await expect(storage.storeSession(session)).resolves.toBeTruthy();
+    const storedSession = await storage.loadSession(sessionId);
+    expect(storedSession?.customProperties).toBeUndefined();
+
+    await expect(storage.deleteSession(sessionId)).resolves.toBeTruthy();
+  });
+
+  it('can list all sessions in pages', async () => {
+    const storage = await storageFactory();
+    if (!storage.listSessions) {
+      return;
+    }
+
+    const prefix = 'list_sessions';
+    const sessions = [1, 2, 3, 4, 5].map(
+      (index) =>
+        new Session({
+          id: `${prefix}_${index}`,
+          shop: `list-shop${index}-sessions.myshopify.io`,
+          state: 'state',
+          isOnline: false,
+          accessToken: '123',
+        }),
+    );
+    for (const session of sessions) {
+      await expect(storage.storeSession(session)).resolves.toBeTruthy();
+    }
+
+    const listedSessions: Session[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await storage.listSessions({cursor, limit: 2});
+      if (!listSessionsLimitIsHint) {
+        expect(page.sessions.length).toBeLessThanOrEqual(2);
+      }
+
+      listedSessions.push(...page.sessions);
+      cursor = page.cursor;
+    } while (cursor);
+
+    const listedIds = listedSessions.map((session) => session.id);
+    expect(new Set(listedIds).size).toBe(listedIds.length);
+    for (const session of sessions) {
+      const listedSession = listedSessions.find(({id}) => id === session.id);
+      expect(session.equals(listedSession)).toBeTruthy();
+    }
+
+    await storage.deleteSessions(sessions.map((session) => session.id));
+  });
+
+  it('rejects listing sessions with a limit below 1', async () => {
+    const storage = await storageFactory();
+    if (!storage.listSessions) {
+      return;
+    }
+
+    await expect(storage.listSessions({limit: 0})).rejects.toThrow(
+      'The limit for listing sessions must be at least 1, got 0',
+    );
+  });
+
+  it('can delete expired sessions', async () => {
+    const storage = await storageFactory();
+    if (!storage.deleteExpiredSessions) {
+      return;
+    }
+
+    const prefix = 'expired_sessions';
+    const now = new Date();
+    now.setMilliseconds(0);
+    const expiredSession = new Session({
+      id: `${prefix}_1`,
+      shop: 'expired-shop1-sessions.myshopify.io',
+      state: 'state',
+      isOnline: true,
+      expires: new Date(now.getTime() - 60 * 60 * 1000),
+      accessToken: '123',
+    });
+    const activeSession = new Session({
+      id: `${prefix}_2`,
+      shop: 'expired-shop1-sessions.myshopify.io',
+      state: 'state',
+      isOnline: true,
+      expires: new Date(now.getTime() + 60 * 60 * 1000),
+      accessToken: '123',
+    });
+    const offlineSession = new Session({
+      id: `${prefix}_3`,
+      shop: 'expired-shop1-sessions.myshopify.io',
+      state: 'state',
+      isOnline: false,
+      accessToken: '123',
+    });
+    for (const session of [expiredSession, activeSession, offlineSession]) {
+      await expect(storage.storeSession(session)).resolves.toBeTruthy();
+    }
+
+    await expect(storage.deleteExpiredSessions(now)).resolves.toBeTruthy();
+
+    await expect(
+      storage.loadSession(expiredSession.id),
+    ).resolves.toBeUndefined();
+    expect(
+      activeSession.equals(await storage.loadSession(activeSession.id)),
+    ).toBeTruthy();
+    expect(
+      offlineSession.equals(await storage.loadSession(offlineSession.id)),
+    ).toBeTruthy();
+
+    await storage.deleteSessions([activeSession.id, offlineSession.id]);
+  });
 }
@@ -0,0 +1,163 @@
+import {Session} from '@shopify/shopify-api';
+
+import {
+  CachedSessionStorage,
+  MemorySessionCache,
+} from '../cached-session-storage';
+
+import {RecordingSessionStorage} from './recording-session-storage';
+
+describe('CachedSessionStorage', () => {
+  let storage: RecordingSessionStorage;
+
+  beforeEach(() => {
+    storage = new RecordingSessionStorage();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('loads sessions from the storage once', async () => {
+    await storage.storeSession(testSession());
+    const cached = new CachedSessionStorage(storage);
+
+    const session1 = await cached.loadSession('session');
+    const session2 = await cached.loadSession('session');
+
+    expect(session1?.equals(testSession())).toBe(true);
+    expect(session2?.equals(testSession())).toBe(true);
+    expect(storage.loadCount).toBe(1);
+    expect(cached.getMetrics()).toEqual({hits: 1, misses: 1, hitRate: 0.5});
+  });
+
+  it('caches stored sessions', async () => {
+    const cached = new CachedSessionStorage(storage);
+
+    await cached.storeSession(testSession());
+    await cached.loadSession('session');
+
+    expect(storage.sessions.has('session')).toBe(true);
+    expect(storage.loadCount).toBe(0);
+  });
+
+  it('does not cache missing sessions', async () => {
+    const cached = new CachedSessionStorage(storage);
+
+    await expect(cached.loadSession('session')).resolves.toBeUndefined();
+    await storage.storeSession(testSession());
+
+    await expect(cached.loadSession('session')).resolves.toBeDefined();
+    expect(cached.getMetrics()).toEqual({hits: 0, misses: 2, hitRate: 0});
+  });
+
+  it('reloads sessions after the TTL expires', async () => {
+    jest.useFakeTimers({now: new Date('2024-01-01T00:00:00Z')});
+    await storage.storeSession(testSession());
+    const cached = new CachedSessionStorage(storage, {ttl: 10});
+
+    await cached.loadSession('session');
+    jest.setSystemTime(new Date('2024-01-01T00:00:10Z'));
+    await cached.loadSession('session');
+
+    expect(storage.loadCount).toBe(2);
+  });
+
+  it('loads expired sessions from the storage', async () => {
+    const cached = new CachedSessionStorage(storage);
+    const session = testSession();
+    session.expires = new Date(Date.now() - 1000);
+    await cached.storeSession(session);
+
+    await cached.deleteExpiredSessions(new Date());
+
+    await expect(cached.loadSession('session')).resolves.toBeUndefined();
+    expect(storage.loadCount).toBe(1);
+  });
+
+  it('removes deleted sessions from the cache', async () => {
+    const cached = new CachedSessionStorage(storage);
+    await cached.storeSession(testSession('session1'));
+    await cached.storeSession(testSession('session2'));
+    await cached.storeSession(testSession('session3'));
+
+    await cached.deleteSession('session1');
+    await cached.deleteSessions(['session2', 'session3']);
+
+    await expect(cached.loadSession('session1')).resolves.toBeUndefined();
+    await expect(cached.loadSession('session2')).resolves.toBeUndefined();
+    await expect(cached.loadSession('session3')).resolves.toBeUndefined();
+  });
+
+  it('does not change the cached session when a loaded session changes', async () => {
+    const cached = new CachedSessionStorage(storage);
+    await cached.storeSession(testSession());
+
+    const session = await cached.loadSession('session');
+    session!.accessToken = 'changed';
+
+    await expect(cached.loadSession('session')).resolves.toHaveProperty(
+      'accessToken',
+      'access-token',
+    );
+  });
+
+  it('does not change the cached custom properties when a loaded session changes', async () => {
+    const cached = new CachedSessionStorage(storage);
+    const session = testSession();
+    session.customProperties = {plan: {tier: 'basic'}};
+    await cached.storeSession(session);
+
+    const loadedSession = await cached.loadSession('session');
+    (loadedSession!.customProperties!.plan as any).tier = 'plus';
+
+    await expect(cached.loadSession('session')).resolves.toHaveProperty(
+      'customProperties',
+      {plan: {tier: 'basic'}},
+    );
+  });
+
+  it('resets the metrics', async () => {
+    const cached = new CachedSessionStorage(storage);
+    await cached.loadSession('session');
+
+    cached.resetMetrics();
+
+    expect(cached.getMetrics()).toEqual({hits: 0, misses: 0, hitRate: 0});
+  });
+
+  it('finds sessions in the storage', async () => {
+    const cached = new CachedSessionStorage(storage);
+    await cached.storeSession(testSession());
+
+    const sessions = await cached.findSessionsByShop('shop.myshopify.io');
+
+    expect(sessions.map(({id}) => id)).toEqual(['session']);
+  });
+});
+
+describe('MemorySessionCache', () => {
+  it('removes the least recently used sessions when full', async () => {
+    const cache = new MemorySessionCache({maxSize: 2});
+    await cache.set(testSession('session1'), 60);
+    await cache.set(testSession('session2'), 60);
+
+    await cache.get('session1');
+    await cache.set(testSession('session3'), 60);
+
+    await expect(cache.get('session1')).resolves.toBeDefined();
+    await expect(cache.get('session2')).resolves.toBeUndefined();
+    await expect(cache.get('session3')).resolves.toBeDefined();
+  });
+});
+
+function testSession(id = 'session'): Session {
+  return new Session({
+    id,
+    shop: 'shop.myshopify.io',
+    state: 'state',
+    isOnline: false,
+    scope: 'read_products',
+    accessToken: 'access-token',
+  });
+}
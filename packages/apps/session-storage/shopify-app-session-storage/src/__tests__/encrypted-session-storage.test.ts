@@ -0,0 +1,167 @@
+import {Session} from '@shopify/shopify-api';
+
+import {
+  EncryptedSessionStorage,
+  SessionEncryptionError,
+} from '../encrypted-session-storage';
+
+import {RecordingSessionStorage} from './recording-session-storage';
+
+const KEY_1 = {id: 'key-1', key: Buffer.alloc(32, 1).toString('base64')};
+const KEY_2 = {id: 'key-2', key: Buffer.alloc(32, 2).toString('base64')};
+
+describe('EncryptedSessionStorage', () => {
+  let storage: RecordingSessionStorage;
+
+  beforeEach(() => {
+    storage = new RecordingSessionStorage();
+  });
+
+  it('stores access tokens and user details encrypted', async () => {
+    const encrypted = new EncryptedSessionStorage(storage, {keys: [KEY_1]});
+    const session = onlineSession();
+
+    await encrypted.storeSession(session);
+
+    const storedSession = storage.sessions.get(session.id)!;
+    const storedUser = storedSession.onlineAccessInfo!.associated_user;
+    expect(storedSession.accessToken).toMatch(/^enc:v1:key-1:/);
+    expect(storedUser.email).toMatch(/^enc:v1:key-1:/);
+    expect(storedUser.first_name).toMatch(/^enc:v1:key-1:/);
+    expect(storedUser.id).toBe(1234);
+    expect(storedUser.account_owner).toBe(true);
+    expect(JSON.stringify(storedSession)).not.toContain('shpat_secret');
+
+    const loadedSession = await encrypted.loadSession(session.id);
+    expect(loadedSession?.equals(session)).toBe(true);
+    expect(loadedSession?.onlineAccessInfo).toEqual(session.onlineAccessInfo);
+  });
+
+  it('decrypts sessions found by shop', async () => {
+    const encrypted = new EncryptedSessionStorage(storage, {keys: [KEY_1]});
+    const session = onlineSession();
+    await encrypted.storeSession(session);
+
+    const [foundSession] = await encrypted.findSessionsByShop(session.shop);
+
+    expect(foundSession.accessToken).toBe('shpat_secret');
+  });
+
+  it('re-encrypts sessions with the new key after a rotation', async () => {
+    const session = onlineSession();
+    await new EncryptedSessionStorage(storage, {keys: [KEY_1]}).storeSession(
+      session,
+    );
+
+    const rotated = new EncryptedSessionStorage(storage, {
+      keys: [KEY_2, KEY_1],
+    });
+    const loadedSession = await rotated.loadSession(session.id);
+
+    expect(loadedSession?.accessToken).toBe('shpat_secret');
+    expect(storage.sessions.get(session.id)!.accessToken).toMatch(
+      /^enc:v1:key-2:/,
+    );
+    expect(storage.storeCount).toBe(2);
+
+    await rotated.loadSession(session.id);
+    expect(storage.storeCount).toBe(2);
+  });
+
+  it('encrypts sessions that were stored before the wrapper was added', async () => {
+    const session = onlineSession();
+    await storage.storeSession(session);
+
+    const encrypted = new EncryptedSessionStorage(storage, {keys: [KEY_1]});
+    const loadedSession = await encrypted.loadSession(session.id);
+
+    expect(loadedSession?.equals(session)).toBe(true);
+    expect(storage.sessions.get(session.id)!.accessToken).toMatch(
+      /^enc:v1:key-1:/,
+    );
+  });
+
+  it('does not re-encrypt sessions when disabled', async () => {
+    await new EncryptedSessionStorage(storage, {keys: [KEY_1]}).storeSession(
+      onlineSession(),
+    );
+
+    const rotated = new EncryptedSessionStorage(storage, {
+      keys: [KEY_2, KEY_1],
+      reEncryptOnRead: false,
+    });
+    await rotated.loadSession('online_session');
+
+    expect(storage.sessions.get('online_session')!.accessToken).toMatch(
+      /^enc:v1:key-1:/,
+    );
+  });
+
+  it('fails to load sessions encrypted with an unknown key', async () => {
+    await new EncryptedSessionStorage(storage, {keys: [KEY_1]}).storeSession(
+      onlineSession(),
+    );
+
+    const encrypted = new EncryptedSessionStorage(storage, {keys: [KEY_2]});
+
+    await expect(encrypted.loadSession('online_session')).rejects.toThrow(
+      SessionEncryptionError,
+    );
+  });
+
+  it('fails to load values copied from another session', async () => {
+    const encrypted = new EncryptedSessionStorage(storage, {keys: [KEY_1]});
+    await encrypted.storeSession(onlineSession());
+
+    const copiedSession = new Session({
+      id: 'other_session',
+      shop: 'shop.myshopify.io',
+      state: 'state',
+      isOnline: false,
+      accessToken: storage.sessions.get('online_session')!.accessToken,
+    });
+    await storage.storeSession(copiedSession);
+
+    await expect(encrypted.loadSession('other_session')).rejects.toThrow(
+      'Could not decrypt accessToken for session other_session',
+    );
+  });
+
+  it.each([
+    [[], 'At least one key is required'],
+    [[{id: 'key:1', key: KEY_1.key}], 'Invalid key id "key:1"'],
+    [
+      [{id: 'short', key: Buffer.alloc(16).toString('base64')}],
+      'Key short must be 32 bytes long, got 16',
+    ],
+  ])('validates the key ring %#', (keys, message) => {
+    expect(() => new EncryptedSessionStorage(storage, {keys})).toThrow(
+      new SessionEncryptionError(message),
+    );
+  });
+});
+
+function onlineSession(): Session {
+  return new Session({
+    id: 'online_session',
+    shop: 'shop.myshopify.io',
+    state: 'state',
+    isOnline: true,
+    scope: 'read_products',
+    accessToken: 'shpat_secret',
+    onlineAccessInfo: {
+      expires_in: 86400,
+      associated_user_scope: 'read_products',
+      associated_user: {
+        id: 1234,
+        first_name: 'John',
+        last_name: 'Smith',
+        email: 'john@example.com',
+        email_verified: true,
+        account_owner: true,
+        locale: 'en',
+        collaborator: false,
+      },
+    },
+  });
+}
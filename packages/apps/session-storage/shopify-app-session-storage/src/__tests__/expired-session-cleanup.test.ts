@@ -0,0 +1,146 @@
+import {Session} from '@shopify/shopify-api';
+
+import {scheduleExpiredSessionCleanup} from '../expired-session-cleanup';
+
+import {RecordingSessionStorage} from './recording-session-storage';
+
+describe('scheduleExpiredSessionCleanup', () => {
+  let storage: RecordingSessionStorage;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({now: new Date('2024-01-01T12:00:00Z')});
+    storage = new RecordingSessionStorage();
+
+    await storage.storeSession(
+      testSession('expired', new Date('2024-01-01T11:00:00Z')),
+    );
+    await storage.storeSession(
+      testSession('active', new Date('2024-01-01T14:00:00Z')),
+    );
+    await storage.storeSession(testSession('offline'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('deletes expired sessions periodically', async () => {
+    const deleteSpy = jest.spyOn(storage, 'deleteExpiredSessions');
+    const cleanup = scheduleExpiredSessionCleanup(storage, {interval: 60});
+
+    expect(deleteSpy).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(deleteSpy).toHaveBeenCalledWith(new Date('2024-01-01T12:01:00Z'));
+    expect([...storage.sessions.keys()]).toEqual(['active', 'offline']);
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(deleteSpy).toHaveBeenCalledTimes(2);
+
+    cleanup.stop();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(deleteSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps sessions for the grace period', async () => {
+    const cleanup = scheduleExpiredSessionCleanup(storage, {
+      gracePeriod: 2 * 60 * 60,
+    });
+
+    await cleanup.run();
+    cleanup.stop();
+
+    expect(storage.sessions.has('expired')).toBe(true);
+  });
+
+  it('does not start a run while another one is in progress', async () => {
+    let finishRun: () => void = () => {};
+    const deleteSpy = jest
+      .spyOn(storage, 'deleteExpiredSessions')
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishRun = () => resolve(true);
+          }),
+      );
+    const cleanup = scheduleExpiredSessionCleanup(storage, {interval: 60});
+
+    const run = cleanup.run();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(deleteSpy).toHaveBeenCalledTimes(1);
+
+    finishRun();
+    await run;
+    await cleanup.run();
+    cleanup.stop();
+
+    expect(deleteSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports errors and keeps running', async () => {
+    const onError = jest.fn();
+    const deleteSpy = jest
+      .spyOn(storage, 'deleteExpiredSessions')
+      .mockRejectedValueOnce(new Error('Connection lost'));
+    const cleanup = scheduleExpiredSessionCleanup(storage, {
+      interval: 60,
+      onError,
+    });
+
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+    cleanup.stop();
+
+    expect(onError).toHaveBeenCalledWith(new Error('Connection lost'));
+    expect(deleteSpy).toHaveBeenCalledTimes(2);
+    expect(storage.sessions.has('expired')).toBe(false);
+  });
+
+  it('reports runs where the storage could not delete expired sessions', async () => {
+    const onError = jest.fn();
+    jest.spyOn(storage, 'deleteExpiredSessions').mockResolvedValueOnce(false);
+    const cleanup = scheduleExpiredSessionCleanup(storage, {onError});
+
+    await cleanup.run();
+    cleanup.stop();
+
+    expect(onError).toHaveBeenCalledWith(
+      new Error('The session storage could not delete expired sessions'),
+    );
+  });
+
+  it('logs errors by default', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    jest
+      .spyOn(storage, 'deleteExpiredSessions')
+      .mockRejectedValueOnce(new Error('Connection lost'));
+    const cleanup = scheduleExpiredSessionCleanup(storage);
+
+    await cleanup.run();
+    cleanup.stop();
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      'Could not delete expired sessions',
+      new Error('Connection lost'),
+    );
+    consoleSpy.mockRestore();
+  });
+
+  it('throws if the storage cannot delete expired sessions', () => {
+    storage.deleteExpiredSessions = undefined as any;
+
+    expect(() => scheduleExpiredSessionCleanup(storage)).toThrow(
+      'The session storage does not support deleting expired sessions',
+    );
+  });
+});
+
+function testSession(id: string, expires?: Date): Session {
+  return new Session({
+    id,
+    shop: 'shop.myshopify.io',
+    state: 'state',
+    isOnline: Boolean(expires),
+    expires,
+    accessToken: 'access-token',
+  });
+}
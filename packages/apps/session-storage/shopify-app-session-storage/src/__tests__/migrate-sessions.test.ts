@@ -0,0 +1,118 @@
+import {Session} from '@shopify/shopify-api';
+
+import {migrateSessions} from '../migrate-sessions';
+
+import {RecordingSessionStorage} from './recording-session-storage';
+
+describe('migrateSessions', () => {
+  let from: RecordingSessionStorage;
+  let to: RecordingSessionStorage;
+
+  beforeEach(async () => {
+    from = new RecordingSessionStorage();
+    to = new RecordingSessionStorage();
+
+    for (let i = 1; i <= 5; i++) {
+      await from.storeSession(testSession(`session_${i}`));
+    }
+  });
+
+  it('copies every session in batches', async () => {
+    const onProgress = jest.fn();
+
+    const result = await migrateSessions(from, to, {batchSize: 2, onProgress});
+
+    expect(result).toEqual({
+      dryRun: false,
+      processed: 5,
+      migrated: 5,
+      failed: 0,
+      failures: [],
+    });
+    expect([...to.sessions.keys()].sort()).toEqual([
+      'session_1',
+      'session_2',
+      'session_3',
+      'session_4',
+      'session_5',
+    ]);
+    expect(onProgress.mock.calls).toEqual([
+      [{processed: 2, migrated: 2, failed: 0}],
+      [{processed: 4, migrated: 4, failed: 0}],
+      [{processed: 5, migrated: 5, failed: 0}],
+    ]);
+    expect(from.sessions.size).toBe(5);
+  });
+
+  it('does not write anything in a dry run', async () => {
+    const result = await migrateSessions(from, to, {dryRun: true});
+
+    expect(result).toMatchObject({dryRun: true, processed: 5, migrated: 0});
+    expect(to.storeCount).toBe(0);
+  });
+
+  it('reports sessions that fail to migrate', async () => {
+    jest
+      .spyOn(to, 'storeSession')
+      .mockImplementation(async (session: Session) => {
+        if (session.id === 'session_2') {
+          throw new Error('Connection lost');
+        }
+        if (session.id === 'session_3') {
+          return false;
+        }
+
+        to.sessions.set(session.id, session);
+        return true;
+      });
+
+    const result = await migrateSessions(from, to);
+
+    expect(result).toMatchObject({processed: 5, migrated: 3, failed: 2});
+    expect(result.failures).toEqual([
+      {id: 'session_2', reason: 'Connection lost'},
+      {id: 'session_3', reason: 'The target storage did not store the session'},
+    ]);
+  });
+
+  it('verifies migrated sessions', async () => {
+    jest
+      .spyOn(to, 'loadSession')
+      .mockResolvedValue(testSession('something_else'));
+
+    const result = await migrateSessions(from, to);
+
+    expect(result).toMatchObject({migrated: 0, failed: 5});
+    expect(result.failures[0]).toEqual({
+      id: 'session_1',
+      reason: 'The session loaded from the target storage does not match',
+    });
+  });
+
+  it('skips verification when disabled', async () => {
+    const loadSpy = jest.spyOn(to, 'loadSession');
+
+    const result = await migrateSessions(from, to, {verify: false});
+
+    expect(result).toMatchObject({migrated: 5, failed: 0});
+    expect(loadSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the source storage cannot list sessions', async () => {
+    from.listSessions = undefined as any;
+
+    await expect(migrateSessions(from, to)).rejects.toThrow(
+      'The source session storage does not support listing sessions',
+    );
+  });
+});
+
+function testSession(id: string): Session {
+  return new Session({
+    id,
+    shop: `${id}.myshopify.io`,
+    state: 'state',
+    isOnline: false,
+    accessToken: 'access-token',
+  });
+}
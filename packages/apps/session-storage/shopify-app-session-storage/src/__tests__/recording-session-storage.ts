@@ -0,0 +1,63 @@
+import {Session} from '@shopify/shopify-api';
+
+import {ListSessionsOptions, SessionPage, SessionStorage} from '../types';
+
+/**
+ * Keeps sessions in memory, and counts how often they're stored and loaded.
+ */
+export class RecordingSessionStorage implements SessionStorage {
+  public sessions = new Map<string, Session>();
+  public storeCount = 0;
+  public loadCount = 0;
+
+  public async storeSession(session: Session): Promise<boolean> {
+    this.storeCount++;
+    this.sessions.set(session.id, session);
+    return true;
+  }
+
+  public async loadSession(id: string): Promise<Session | undefined> {
+    this.loadCount++;
+    return this.sessions.get(id);
+  }
+
+  public async deleteSession(id: string): Promise<boolean> {
+    this.sessions.delete(id);
+    return true;
+  }
+
+  public async deleteSessions(ids: string[]): Promise<boolean> {
+    ids.forEach((id) => this.sessions.delete(id));
+    return true;
+  }
+
+  public async findSessionsByShop(shop: string): Promise<Session[]> {
+    return [...this.sessions.values()].filter(
+      (session) => session.shop === shop,
+    );
+  }
+
+  public async listSessions({
+    cursor,
+    limit = 100,
+  }: ListSessionsOptions = {}): Promise<SessionPage> {
+    const ids = [...this.sessions.keys()]
+      .sort()
+      .filter((id) => cursor === undefined || id > cursor);
+    const pageIds = ids.slice(0, limit);
+
+    return {
+      sessions: pageIds.map((id) => this.sessions.get(id)!),
+      cursor: ids.length > limit ? pageIds[pageIds.length - 1] : undefined,
+    };
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    for (const session of this.sessions.values()) {
+      if (session.expires && session.expires < before) {
+        this.sessions.delete(session.id);
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,218 @@
+import {Session} from '@shopify/shopify-api';
+
+import {ListSessionsOptions, SessionPage, SessionStorage} from './types';
+import {deleteWrappedExpiredSessions, listWrappedSessions} from './utils';
+
+export const DEFAULT_SESSION_CACHE_TTL = 60;
+export const DEFAULT_SESSION_CACHE_MAX_SIZE = 1000;
+
+/**
+ * Defines where `CachedSessionStorage` keeps copies of sessions.
+ */
+export interface SessionCache {
+  /**
+   * Returns the cached session, or `undefined` if it isn't cached or expired.
+   */
+  get(id: string): Promise<Session | undefined>;
+  /**
+   * Caches the session for the given number of seconds.
+   */
+  set(session: Session, ttl: number): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface MemorySessionCacheOptions {
+  /**
+   * How many sessions to keep. The least recently used sessions are removed first. Defaults to 1000.
+   */
+  maxSize?: number;
+}
+
+/**
+ * Keeps sessions in memory, in a least recently used cache. Sessions aren't shared across multiple instances of the
+ * app.
+ */
+export class MemorySessionCache implements SessionCache {
+  private readonly maxSize: number;
+  private entries = new Map<string, {session: Session; expiresAt: number}>();
+
+  constructor({
+    maxSize = DEFAULT_SESSION_CACHE_MAX_SIZE,
+  }: MemorySessionCacheOptions = {}) {
+    this.maxSize = maxSize;
+  }
+
+  public async get(id: string): Promise<Session | undefined> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(id);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Maps keep their insertion order, so re-inserting marks the session as the most recently used
+    this.entries.set(id, entry);
+    return copySession(entry.session);
+  }
+
+  public async set(session: Session, ttl: number): Promise<void> {
+    this.entries.delete(session.id);
+    this.entries.set(session.id, {
+      session: copySession(session),
+      expiresAt: Date.now() + ttl * 1000,
+    });
+
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= this.maxSize) {
+        break;
+      }
+      this.entries.delete(id);
+    }
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+export interface CachedSessionStorageOptions {
+  /**
+   * Where to cache sessions. Defaults to a `MemorySessionCache`.
+   */
+  cache?: SessionCache;
+  /**
+   * How long to cache sessions for, in seconds. Defaults to 60.
+   */
+  ttl?: number;
+}
+
+export interface SessionCacheMetrics {
+  hits: number;
+  misses: number;
+  /**
+   * The share of loaded sessions that came from the cache, between 0 and 1.
+   */
+  hitRate: number;
+}
+
+/**
+ * Wraps a session storage with a read-through cache, so that loading a session doesn't always query the storage.
+ *
+ * Sessions are cached when they're stored or loaded, and removed from the cache when they're deleted through this
+ * class. Sessions changed directly in the wrapped storage may be out of date until they expire from the cache.
+ */
+export class CachedSessionStorage<
+  Storage extends SessionStorage = SessionStorage,
+> implements SessionStorage
+{
+  private readonly cache: SessionCache;
+  private readonly ttl: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    public readonly storage: Storage,
+    {
+      cache = new MemorySessionCache(),
+      ttl = DEFAULT_SESSION_CACHE_TTL,
+    }: CachedSessionStorageOptions = {},
+  ) {
+    this.cache = cache;
+    this.ttl = ttl;
+  }
+
+  public async storeSession(session: Session): Promise<boolean> {
+    const stored = await this.storage.storeSession(session);
+
+    if (stored) {
+      await this.cache.set(session, this.ttl);
+    } else {
+      await this.cache.delete(session.id);
+    }
+
+    return stored;
+  }
+
+  public async loadSession(id: string): Promise<Session | undefined> {
+    // Expired sessions may have been deleted from the storage, so they're always loaded from it
+    const cachedSession = await this.cache.get(id);
+    if (cachedSession && !cachedSession.isExpired()) {
+      this.hits++;
+      return cachedSession;
+    }
+
+    this.misses++;
+    const session = await this.storage.loadSession(id);
+    if (session) {
+      await this.cache.set(session, this.ttl);
+    }
+
+    return session;
+  }
+
+  public async deleteSession(id: string): Promise<boolean> {
+    await this.cache.delete(id);
+    return this.storage.deleteSession(id);
+  }
+
+  public async deleteSessions(ids: string[]): Promise<boolean> {
+    await Promise.all(ids.map((id) => this.cache.delete(id)));
+    return this.storage.deleteSessions(ids);
+  }
+
+  public async findSessionsByShop(shop: string): Promise<Session[]> {
+    return this.storage.findSessionsByShop(shop);
+  }
+
+  public async listSessions(
+    options?: ListSessionsOptions,
+  ): Promise<SessionPage> {
+    return listWrappedSessions(this.storage, options);
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    return deleteWrappedExpiredSessions(this.storage, before);
+  }
+
+  /**
+   * Returns how many sessions were loaded from the cache and from the wrapped storage.
+   */
+  public getMetrics(): SessionCacheMetrics {
+    const total = this.hits + this.misses;
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total ? this.hits / total : 0,
+    };
+  }
+
+  public resetMetrics(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
+
+// Callers may change the sessions they load, which mustn't change the cached copy
+function copySession(session: Session): Session {
+  const params = session.toObject();
+  if (params.expires) {
+    params.expires = new Date(params.expires);
+  }
+  if (params.onlineAccessInfo) {
+    params.onlineAccessInfo = {
+      ...params.onlineAccessInfo,
+      associated_user: {...params.onlineAccessInfo.associated_user},
+    };
+  }
+  if (params.customProperties) {
+    params.customProperties = JSON.parse(
+      JSON.stringify(params.customProperties),
+    );
+  }
+
+  return new Session(params);
+}
@@ -0,0 +1,301 @@
+import {Session} from '@shopify/shopify-api';
+import {asBase64, getCryptoLib} from '@shopify/shopify-api/runtime';
+
+import {ListSessionsOptions, SessionPage, SessionStorage} from './types';
+import {deleteWrappedExpiredSessions, listWrappedSessions} from './utils';
+
+const ENCRYPTED_VALUE_PREFIX = 'enc:v1';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+// Other user fields are numbers or booleans, which storages may keep in typed columns
+const ENCRYPTED_USER_FIELDS = [
+  'first_name',
+  'last_name',
+  'email',
+  'locale',
+] as const;
+
+export interface EncryptionKey {
+  /**
+   * Identifies the key in encrypted values, so it must not change once data is encrypted with it. Can't contain `:`.
+   */
+  id: string;
+  /**
+   * A base64-encoded 256-bit key, such as the output of `openssl rand -base64 32`.
+   */
+  key: string;
+}
+
+export interface EncryptedSessionStorageOptions {
+  /**
+   * The key ring. The first key encrypts new values, and the others are only used to decrypt values encrypted before
+   * the keys were rotated.
+   */
+  keys: EncryptionKey[];
+  /**
+   * Whether to store sessions again when they're loaded with values that are encrypted with an older key, or not
+   * encrypted at all. Defaults to `true`.
+   */
+  reEncryptOnRead?: boolean;
+}
+
+export class SessionEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionEncryptionError';
+  }
+}
+
+/**
+ * Wraps a session storage so that access tokens and online users' personal details are encrypted with AES-GCM before
+ * they're stored.
+ *
+ * Values stored before the wrapper was added are still loaded, and are encrypted when `reEncryptOnRead` is enabled.
+ */
+export class EncryptedSessionStorage<
+  Storage extends SessionStorage = SessionStorage,
+> implements SessionStorage
+{
+  private readonly primaryKeyId: string;
+  private readonly keys: Map<string, Promise<CryptoKey>>;
+  private readonly reEncryptOnRead: boolean;
+
+  constructor(
+    public readonly storage: Storage,
+    {keys, reEncryptOnRead = true}: EncryptedSessionStorageOptions,
+  ) {
+    if (!keys.length) {
+      throw new SessionEncryptionError('At least one key is required');
+    }
+
+    this.primaryKeyId = keys[0].id;
+    this.keys = new Map(
+      keys.map(({id, key}) => [id, importKey(validateKey(id, key))]),
+    );
+    this.reEncryptOnRead = reEncryptOnRead;
+  }
+
+  public async storeSession(session: Session): Promise<boolean> {
+    return this.storage.storeSession(await this.encryptSession(session));
+  }
+
+  public async loadSession(id: string): Promise<Session | undefined> {
+    const storedSession = await this.storage.loadSession(id);
+
+    return storedSession ? this.decryptSession(storedSession) : undefined;
+  }
+
+  public async deleteSession(id: string): Promise<boolean> {
+    return this.storage.deleteSession(id);
+  }
+
+  public async deleteSessions(ids: string[]): Promise<boolean> {
+    return this.storage.deleteSessions(ids);
+  }
+
+  public async findSessionsByShop(shop: string): Promise<Session[]> {
+    const storedSessions = await this.storage.findSessionsByShop(shop);
+
+    return Promise.all(
+      storedSessions.map((session) => this.decryptSession(session)),
+    );
+  }
+
+  public async listSessions(
+    options?: ListSessionsOptions,
+  ): Promise<SessionPage> {
+    const page = await listWrappedSessions(this.storage, options);
+
+    return {
+      ...page,
+      sessions: await Promise.all(
+        page.sessions.map((session) => this.decryptSession(session)),
+      ),
+    };
+  }
+
+  public async deleteExpiredSessions(before: Date): Promise<boolean> {
+    return deleteWrappedExpiredSessions(this.storage, before);
+  }
+
+  private async encryptSession(session: Session): Promise<Session> {
+    const params = session.toObject();
+
+    if (params.accessToken) {
+      params.accessToken = await this.encrypt(
+        params.accessToken,
+        session.id,
+        'accessToken',
+      );
+    }
+
+    const user = params.onlineAccessInfo?.associated_user;
+    if (params.onlineAccessInfo && user) {
+      const encryptedUser = {...user};
+      for (const field of ENCRYPTED_USER_FIELDS) {
+        if (typeof user[field] === 'string') {
+          encryptedUser[field] = await this.encrypt(
+            user[field],
+            session.id,
+            field,
+          );
+        }
+      }
+
+      params.onlineAccessInfo = {
+        ...params.onlineAccessInfo,
+        associated_user: encryptedUser,
+      };
+    }
+
+    return new Session(params);
+  }
+
+  private async decryptSession(storedSession: Session): Promise<Session> {
+    const params = storedSession.toObject();
+    let needsReEncryption = false;
+
+    const decrypt = async (value: string, field: string) => {
+      const {value: decrypted, keyId} = await this.decrypt(
+        value,
+        storedSession.id,
+        field,
+      );
+      needsReEncryption ||= keyId !== this.primaryKeyId;
+
+      return decrypted;
+    };
+
+    if (params.accessToken) {
+      params.accessToken = await decrypt(params.accessToken, 'accessToken');
+    }
+
+    const user = params.onlineAccessInfo?.associated_user;
+    if (params.onlineAccessInfo && user) {
+      const decryptedUser = {...user};
+      for (const field of ENCRYPTED_USER_FIELDS) {
+        if (typeof user[field] === 'string') {
+          decryptedUser[field] = await decrypt(user[field], field);
+        }
+      }
+
+      params.onlineAccessInfo = {
+        ...params.onlineAccessInfo,
+        associated_user: decryptedUser,
+      };
+    }
+
+    const session = new Session(params);
+    if (needsReEncryption && this.reEncryptOnRead) {
+      await this.storeSession(session);
+    }
+
+    return session;
+  }
+
+  private async encrypt(
+    value: string,
+    sessionId: string,
+    field: string,
+  ): Promise<string> {
+    const cryptoLib = getCryptoLib();
+    const iv = cryptoLib.getRandomValues(new Uint8Array(IV_LENGTH));
+
+    const ciphertext = await cryptoLib.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: additionalData(sessionId, field),
+      },
+      await this.keys.get(this.primaryKeyId)!,
+      new TextEncoder().encode(value),
+    );
+
+    return [
+      ENCRYPTED_VALUE_PREFIX,
+      this.primaryKeyId,
+      asBase64(iv.buffer),
+      asBase64(ciphertext),
+    ].join(':');
+  }
+
+  /**
+   * Returns the decrypted value and the id of the key that encrypted it. Values that aren't encrypted are returned as
+   * they are, without a key id.
+   */
+  private async decrypt(
+    value: string,
+    sessionId: string,
+    field: string,
+  ): Promise<{value: string; keyId?: string}> {
+    if (!value.startsWith(`${ENCRYPTED_VALUE_PREFIX}:`)) {
+      return {value};
+    }
+
+    const [keyId, iv, ciphertext] = value
+      .slice(ENCRYPTED_VALUE_PREFIX.length + 1)
+      .split(':');
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new SessionEncryptionError(
+        `Session ${sessionId} is encrypted with unknown key ${keyId}`,
+      );
+    }
+
+    try {
+      const decrypted = await getCryptoLib().subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: fromBase64(iv),
+          additionalData: additionalData(sessionId, field),
+        },
+        await key,
+        fromBase64(ciphertext),
+      );
+
+      return {value: new TextDecoder().decode(decrypted), keyId};
+    } catch {
+      throw new SessionEncryptionError(
+        `Could not decrypt ${field} for session ${sessionId}`,
+      );
+    }
+  }
+}
+
+function validateKey(id: string, key: string): Uint8Array {
+  if (!id || id.includes(':')) {
+    throw new SessionEncryptionError(`Invalid key id "${id}"`);
+  }
+
+  let rawKey: Uint8Array;
+  try {
+    rawKey = fromBase64(key);
+  } catch {
+    throw new SessionEncryptionError(`Key ${id} is not valid base64`);
+  }
+
+  if (rawKey.length !== KEY_LENGTH) {
+    throw new SessionEncryptionError(
+      `Key ${id} must be ${KEY_LENGTH} bytes long, got ${rawKey.length}`,
+    );
+  }
+
+  return rawKey;
+}
+
+async function importKey(rawKey: Uint8Array): Promise<CryptoKey> {
+  return getCryptoLib().subtle.importKey('raw', rawKey, 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+// Binding values to their session and field stops them from being copied into other sessions
+function additionalData(sessionId: string, field: string): Uint8Array {
+  return new TextEncoder().encode(`${sessionId}:${field}`);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,86 @@
+import {SessionStorage} from './types';
+
+export const DEFAULT_EXPIRED_SESSION_CLEANUP_INTERVAL = 60 * 60;
+
+export interface ExpiredSessionCleanupOptions {
+  /**
+   * How often to delete expired sessions, in seconds. Defaults to 3600 (1 hour).
+   */
+  interval?: number;
+  /**
+   * How long to keep sessions after they expire, in seconds. Defaults to 0.
+   */
+  gracePeriod?: number;
+  /**
+   * Called when deleting expired sessions fails, including when the storage reports that it could not delete them.
+   * The cleanup keeps running, so the next run can try again. Defaults to logging the error with `console.error`.
+   */
+  onError?: (error: unknown) => void;
+}
+
+export interface ExpiredSessionCleanup {
+  /**
+   * Deletes expired sessions right away, without waiting for the next scheduled run.
+   */
+  run(): Promise<void>;
+  /**
+   * Stops deleting expired sessions.
+   */
+  stop(): void;
+}
+
+/**
+ * Deletes expired sessions from the storage periodically, so that sessions that are never loaded again don't stay in
+ * the storage forever.
+ *
+ * Runs don't overlap: if a run takes longer than the interval, the next one is skipped.
+ */
+export function scheduleExpiredSessionCleanup(
+  storage: SessionStorage,
+  {
+    interval = DEFAULT_EXPIRED_SESSION_CLEANUP_INTERVAL,
+    gracePeriod = 0,
+    onError = logError,
+  }: ExpiredSessionCleanupOptions = {},
+): ExpiredSessionCleanup {
+  if (!storage.deleteExpiredSessions) {
+    throw new Error(
+      'The session storage does not support deleting expired sessions',
+    );
+  }
+
+  const deleteExpiredSessions = storage.deleteExpiredSessions.bind(storage);
+
+  let running: Promise<void> | undefined;
+  const run = () => {
+    if (!running) {
+      running = deleteExpiredSessions(new Date(Date.now() - gracePeriod * 1000))
+        .then((deleted) => {
+          if (!deleted) {
+            throw new Error(
+              'The session storage could not delete expired sessions',
+            );
+          }
+        })
+        .catch((error) => onError(error))
+        .finally(() => {
+          running = undefined;
+        });
+    }
+
+    return running;
+  };
+
+  const timer = setInterval(run, interval * 1000);
+  // The cleanup shouldn't keep the process alive on its own
+  timer.unref?.();
+
+  return {
+    run,
+    stop: () => clearInterval(timer),
+  };
+}
+
+function logError(error: unknown) {
+  console.error('Could not delete expired sessions', error);
+}
@@ -1,3 +1,8 @@
 export * from './types';
 export * from './rdbms-session-storage-migrator';
 export * from './abstract-migration-engine';
+export * from './encrypted-session-storage';
+export * from './cached-session-storage';
+export * from './migrate-sessions';
+export * from './list-sessions';
+export * from './expired-session-cleanup';
@@ -0,0 +1,10 @@
+/**
+ * Throws if the limit passed to `listSessions` can't return any sessions.
+ */
+export function validateListSessionsLimit(limit: number): void {
+  if (!(limit >= 1)) {
+    throw new Error(
+      `The limit for listing sessions must be at least 1, got ${limit}`,
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import {DEFAULT_LIST_SESSIONS_LIMIT, SessionStorage} from './types';
+
+export interface MigrateSessionsOptions {
+  /**
+   * How many sessions to read from the source storage at a time. Defaults to 100.
+   */
+  batchSize?: number;
+  /**
+   * Reads every session without writing to the target storage, to check how many sessions would be migrated.
+   * Defaults to `false`.
+   */
+  dryRun?: boolean;
+  /**
+   * Whether to load each session from the target storage after storing it, and compare it with the source session.
+   * Defaults to `true`.
+   */
+  verify?: boolean;
+  /**
+   * Called after each batch is migrated.
+   */
+  onProgress?: (progress: MigrateSessionsProgress) => void | Promise<void>;
+}
+
+export interface MigrateSessionsProgress {
+  /**
+   * How many sessions were read from the source storage so far.
+   */
+  processed: number;
+  /**
+   * How many sessions were stored in the target storage so far. Always 0 for dry runs.
+   */
+  migrated: number;
+  /**
+   * How many sessions couldn't be stored or verified so far.
+   */
+  failed: number;
+}
+
+export interface MigrateSessionsFailure {
+  id: string;
+  reason: string;
+}
+
+export interface MigrateSessionsResult extends MigrateSessionsProgress {
+  dryRun: boolean;
+  failures: MigrateSessionsFailure[];
+}
+
+/**
+ * Copies every session from one storage to another, for example when moving an app to a different database.
+ *
+ * Sessions are copied in batches, and failures don't stop the migration, so the result lists every session that
+ * needs attention. Sessions aren't deleted from the source storage.
+ */
+export async function migrateSessions(
+  from: SessionStorage,
+  to: SessionStorage,
+  {
+    batchSize = DEFAULT_LIST_SESSIONS_LIMIT,
+    dryRun = false,
+    verify = true,
+    onProgress,
+  }: MigrateSessionsOptions = {},
+): Promise<MigrateSessionsResult> {
+  if (!from.listSessions) {
+    throw new Error(
+      'The source session storage does not support listing sessions',
+    );
+  }
+
+  const result: MigrateSessionsResult = {
+    dryRun,
+    processed: 0,
+    migrated: 0,
+    failed: 0,
+    failures: [],
+  };
+  const fail = (id: string, reason: string) => {
+    result.failed++;
+    result.failures.push({id, reason});
+  };
+
+  let cursor: string | undefined;
+  do {
+    const page = await from.listSessions({cursor, limit: batchSize});
+
+    for (const session of page.sessions) {
+      result.processed++;
+      if (dryRun) {
+        continue;
+      }
+
+      try {
+        if (!(await to.storeSession(session))) {
+          fail(session.id, 'The target storage did not store the session');
+          continue;
+        }
+
+        if (verify && !session.equals(await to.loadSession(session.id))) {
+          fail(
+            session.id,
+            'The session loaded from the target storage does not match',
+          );
+          continue;
+        }
+
+        result.migrated++;
+      } catch (error) {
+        fail(session.id, error instanceof Error ? error.message : `${error}`);
+      }
+    }
+
+    await onProgress?.({
+      processed: result.processed,
+      migrated: result.migrated,
+      failed: result.failed,
+    });
+    cursor = page.cursor;
+  } while (cursor);
+
+  return result;
+}
@@ -38,6 +38,43 @@ export interface SessionStorage {
    * @param shop shop of the session(s) to return
    */
   findSessionsByShop(shop: string): Promise<Session[]>;
+
+  /**
+   * Returns a page of sessions, in a stable order, so that all sessions in storage can be read in batches.
+   *
+   * @param options The cursor returned with the previous page, and the maximum number of sessions to return
+   */
+  listSessions?(options?: ListSessionsOptions): Promise<SessionPage>;
+
+  /**
+   * Deletes every session that expired before the given date. Sessions without an expiry date are kept.
+   *
+   * @param before Sessions that expired before this date are deleted
+   */
+  deleteExpiredSessions?(before: Date): Promise<boolean>;
+}
+
+export const DEFAULT_LIST_SESSIONS_LIMIT = 100;
+
+export interface ListSessionsOptions {
+  /**
+   * The cursor returned with the previous page. Omit it to get the first page.
+   */
+  cursor?: string;
+  /**
+   * The maximum number of sessions to return, which must be at least 1. Defaults to 100.
+   *
+   * Storages that page through a database cursor, like Redis, may return more sessions than this in a page.
+   */
+  limit?: number;
+}
+
+export interface SessionPage {
+  sessions: Session[];
+  /**
+   * The cursor for the next page, or `undefined` if this is the last page.
+   */
+  cursor?: string;
 }
 
 /**
@@ -0,0 +1,34 @@
+import {ListSessionsOptions, SessionPage, SessionStorage} from './types';
+
+/**
+ * Lists sessions from a storage wrapped by another storage, which can only list sessions if the wrapped storage can.
+ */
+export async function listWrappedSessions(
+  storage: SessionStorage,
+  options?: ListSessionsOptions,
+): Promise<SessionPage> {
+  if (!storage.listSessions) {
+    throw new Error(
+      'The wrapped session storage does not support listing sessions',
+    );
+  }
+
+  return storage.listSessions(options);
+}
+
+/**
+ * Deletes expired sessions from a storage wrapped by another storage, which can only delete them if the wrapped storage
+ * can.
+ */
+export async function deleteWrappedExpiredSessions(
+  storage: SessionStorage,
+  before: Date,
+): Promise<boolean> {
+  if (!storage.deleteExpiredSessions) {
+    throw new Error(
+      'The wrapped session storage does not support deleting expired sessions',
+    );
+  }
+
+  return storage.deleteExpiredSessions(before);
+}
@@ -41,45 +41,58 @@ export async function mockConvertHeaders(
   return Promise.resolve(headers);
 }
 
-export const mockFetch: AbstractFetchFunc = async (url, init) => {
-  const mockInit = init as RequestInit;
-
-  const request = new Request(url as string, mockInit);
-  const headers = Object.fromEntries(
-    new FetchHeaders(mockInit?.headers).entries(),
-  );
-
-  mockTestRequests.requestList.push({
-    url: request.url,
-    method: request.method,
-    headers: canonicalizeHeaders(headers),
-    body: await request.text(),
-  });
+export const mockFetch: AbstractFetchFunc = createMockFetch(async (request) => {
+  mockTestRequests.requestList.push(request);
 
   const next = mockTestRequests.responseList.shift()!;
   if (!next) {
     throw new Error(
-      `Missing mock for ${request.method} to ${url}, have you queued all required responses?`,
+      `Missing mock for ${request.method} to ${request.url}, have you queued all required responses?`,
     );
   }
-  if (next instanceof Error) {
-    throw next;
-  }
 
-  const responseHeaders = new FetchHeaders();
-  Object.entries(next.headers ?? {}).forEach(([key, value]) => {
-    responseHeaders.set(
-      key,
-      typeof value === 'string' ? value : value.join(', '),
+  return next;
+});
+
+/**
+ * Creates a fetch function that passes each request to the given handler, and responds with what it returns.
+ */
+export function createMockFetch(
+  handler: (request: NormalizedRequest) => Promise<NormalizedResponse | Error>,
+): AbstractFetchFunc {
+  return async (url, init) => {
+    const mockInit = init as RequestInit;
+
+    const request = new Request(url as string, mockInit);
+    const headers = Object.fromEntries(
+      new FetchHeaders(mockInit?.headers).entries(),
     );
-  });
 
-  return new Response(next.body, {
-    status: next.statusCode,
-    statusText: next.statusText,
-    headers: responseHeaders as any,
-  }) as any;
-};
+    const next = await handler({
+      url: request.url,
+      method: request.method,
+      headers: canonicalizeHeaders(headers),
+      body: await request.text(),
+    });
+    if (next instanceof Error) {
+      throw next;
+    }
+
+    const responseHeaders = new FetchHeaders();
+    Object.entries(next.headers ?? {}).forEach(([key, value]) => {
+      responseHeaders.set(
+        key,
+        typeof value === 'string' ? value : value.join(', '),
+      );
+    });
+
+    return new Response(next.body, {
+      status: next.statusCode,
+      statusText: next.statusText,
+      headers: responseHeaders as any,
+    }) as any;
+  };
+}
 
 export function mockRuntimeString() {
   return 'Mock adapter';
@@ -109,6 +109,8 @@ export class InvalidWebhookError extends ShopifyError {
   }
 }
 export class MissingWebhookCallbackError extends InvalidWebhookError {}
+export class InvalidWebhookMessageError extends ShopifyError {}
+export class WebhookHandlerError extends ShopifyError {}
 export class SessionStorageError extends ShopifyError {}
 export class MissingRequiredArgument extends ShopifyError {}
 export class UnsupportedClientType extends ShopifyError {}
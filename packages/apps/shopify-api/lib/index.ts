@@ -19,6 +19,8 @@ import {FulfillmentService, fulfillmentService} from './fulfillment-service';
 
 export * from './error';
 export * from './session/classes';
+export * from './webhooks/idempotency';
+export * from './webhooks/queue';
 
 export * from '../rest/types';
 export * from './types';
@@ -28,6 +30,7 @@ export * from './billing/types';
 export * from './clients/types';
 export * from './session/types';
 export * from './webhooks/types';
+export * from './webhooks/payloads';
 export * from './utils/types';
 
 export interface Shopify<
@@ -659,3 +659,84 @@ describe('toPropertyArray and fromPropertyArray', () => {
     });
   });
 });
+
+describe('customProperties', () => {
+  const customProperties = {
+    planTier: 'plus',
+    refreshToken: {expiresAt: 1700000000, rotated: false},
+    locales: ['en', 'fr'],
+    trialEndsAt: null,
+  };
+
+  it('round-trips custom properties through a property array', () => {
+    const session = new Session({
+      id: 'session_id',
+      shop: 'shop',
+      state: 'state',
+      isOnline: false,
+      customProperties,
+    });
+
+    const propertyArray = session.toPropertyArray();
+    const sessionCopy = Session.fromPropertyArray(propertyArray);
+
+    expect(propertyArray).toContainEqual([
+      'customProperties',
+      '{"locales":["en","fr"],"planTier":"plus","refreshToken":{"expiresAt":1700000000,"rotated":false},"trialEndsAt":null}',
+    ]);
+    expect(sessionCopy.customProperties).toStrictEqual(customProperties);
+    expect(session.equals(sessionCopy)).toBe(true);
+  });
+
+  it('accepts custom properties that were already parsed', () => {
+    const session = Session.fromPropertyArray([
+      ['id', 'session_id'],
+      ['shop', 'shop'],
+      ['state', 'state'],
+      ['isOnline', false],
+      ['customproperties', customProperties as any],
+    ]);
+
+    expect(session.customProperties).toStrictEqual(customProperties);
+  });
+
+  it('compares custom properties regardless of key order', () => {
+    const params = {id: 'session_id', shop: 'shop', state: 'state'};
+    const session = new Session({
+      ...params,
+      isOnline: false,
+      customProperties: {plan: 'plus', limits: {orders: 2, products: 3}},
+    });
+
+    expect(
+      session.equals(
+        new Session({
+          ...params,
+          isOnline: false,
+          customProperties: {limits: {products: 3, orders: 2}, plan: 'plus'},
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      session.equals(
+        new Session({
+          ...params,
+          isOnline: false,
+          customProperties: {plan: 'plus'},
+        }),
+      ),
+    ).toBe(false);
+  });
+
+  it('includes custom properties in the object form', () => {
+    const session = new Session({
+      id: 'session_id',
+      shop: 'shop',
+      state: 'state',
+      isOnline: false,
+      customProperties,
+    });
+
+    expect(session.toObject().customProperties).toStrictEqual(customProperties);
+  });
+});
@@ -3,7 +3,7 @@ import {InvalidSession} from '../error';
 import {OnlineAccessInfo} from '../auth/oauth/types';
 import {AuthScopes} from '../auth/scopes';
 
-import {SessionParams} from './types';
+import {SessionCustomProperties, SessionParams} from './types';
 
 const propertiesToSave = [
   'id',
@@ -14,6 +14,7 @@ const propertiesToSave = [
   'accessToken',
   'expires',
   'onlineAccessInfo',
+  'customProperties',
 ];
 
 /**
@@ -52,6 +53,8 @@ export class Session {
               return ['accountOwner', value];
             case 'emailverified':
               return ['emailVerified', value];
+            case 'customproperties':
+              return ['customProperties', value];
             default:
               return [key.toLowerCase(), value];
           }
@@ -82,6 +85,11 @@ export class Session {
         case 'onlineAccessInfo':
           onlineAccessInfo.associated_user.id = Number(value);
           break;
+        case 'customProperties':
+          // Databases with JSON columns may return the parsed properties
+          sessionData[key] =
+            typeof value === 'string' ? JSON.parse(value) : value;
+          break;
         case 'userId':
           if (returnUserData) {
             onlineAccessInfo.associated_user.id = Number(value);
@@ -166,6 +174,10 @@ export class Session {
    * Information on the user for the session. Only present for online sessions.
    */
   public onlineAccessInfo?: OnlineAccessInfo;
+  /**
+   * Custom properties stored with the session, such as the shop's plan. Session storages persist them as JSON.
+   */
+  public customProperties?: SessionCustomProperties;
 
   constructor(params: SessionParams) {
     Object.assign(this, params);
@@ -239,6 +251,9 @@ export class Session {
     if (this.onlineAccessInfo) {
       object.onlineAccessInfo = this.onlineAccessInfo;
     }
+    if (this.customProperties) {
+      object.customProperties = this.customProperties;
+    }
     return object;
   }
 
@@ -300,6 +315,8 @@ export class Session {
                   ['collaborator', value?.associated_user?.collaborator],
                 ];
               }
+            case 'customProperties':
+              return [[key, serializeCustomProperties(value)]];
             default:
               return [[key, value]];
           }
@@ -309,3 +326,17 @@ export class Session {
     );
   }
 }
+
+// Object keys are sorted so that equal properties are always serialized the same way, since some databases reorder
+// the keys in JSON columns
+function serializeCustomProperties(properties: SessionCustomProperties) {
+  return JSON.stringify(properties, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([key1], [key2]) =>
+            key1 < key2 ? -1 : 1,
+          ),
+        )
+      : value,
+  );
+}
@@ -34,12 +34,44 @@ export interface SessionParams {
    * Information on the user for the session. Only present for online sessions.
    */
   onlineAccessInfo?: OnlineAccessInfo | StoredOnlineAccessInfo;
+  /**
+   * Custom properties to store with the session, such as the shop's plan.
+   */
+  customProperties?: SessionCustomProperties;
   /**
    * Additional properties of the session allowing for extension
    */
   [key: string]: any;
 }
 
+/**
+ * A value that can be stored in a session's custom properties. Values are stored as JSON.
+ */
+export type SessionCustomPropertyValue =
+  | string
+  | number
+  | boolean
+  | null
+  | SessionCustomPropertyValue[]
+  | {[key: string]: SessionCustomPropertyValue};
+
+/**
+ * Custom properties that session storages persist along with the session.
+ *
+ * Apps can declare the properties they use by augmenting this interface:
+ *
+ * ```ts
+ * declare module '@shopify/shopify-api' {
+ *   interface SessionCustomProperties {
+ *     planTier?: string;
+ *   }
+ * }
+ * ```
+ */
+export interface SessionCustomProperties {
+  [key: string]: SessionCustomPropertyValue | undefined;
+}
+
 type StoredOnlineAccessInfo = Omit<OnlineAccessInfo, 'associated_user'> & {
   associated_user: Partial<OnlineAccessUser>;
 };
@@ -0,0 +1,191 @@
+import fs from 'fs';
+import path from 'path';
+
+import {testConfig} from '../../__tests__/test-config';
+import {shopifyApi} from '../..';
+import {InvalidWebhookMessageError, WebhookHandlerError} from '../../error';
+import {MemoryWebhookIdempotencyStore} from '../idempotency';
+
+import {EVENT_BRIDGE_HANDLER, HTTP_HANDLER, PUB_SUB_HANDLER} from './handlers';
+
+const PAYLOAD = {
+  id: 632910392,
+  title: 'Example T-Shirt – Blue',
+  vendor: 'Acme',
+};
+const WEBHOOK_FIELDS = {
+  topic: 'PRODUCTS_CREATE',
+  domain: 'shop1.myshopify.io',
+  webhookId: 'b54557e4-bdd9-4b37-8a5f-bf7d70bcd043',
+  apiVersion: '2024-10',
+};
+
+function loadFixture(name: string) {
+  return JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8'),
+  );
+}
+
+describe('shopify.webhooks.consumePubSub', () => {
+  it('calls the Pub/Sub handlers with the decoded message', async () => {
+    const shopify = shopifyApi(testConfig());
+    const callback = jest.fn();
+    const httpCallback = jest.fn();
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: [
+        {...PUB_SUB_HANDLER, callback},
+        {...HTTP_HANDLER, callback: httpCallback},
+      ],
+    });
+
+    const result = await shopify.webhooks.consumePubSub({
+      envelope: loadFixture('pubsub-push-envelope.json'),
+      context: {some: 'context'},
+    });
+
+    expect(result).toEqual({...WEBHOOK_FIELDS, duplicate: false});
+    expect(callback).toHaveBeenCalledWith(
+      WEBHOOK_FIELDS.topic,
+      WEBHOOK_FIELDS.domain,
+      JSON.stringify(PAYLOAD),
+      WEBHOOK_FIELDS.webhookId,
+      WEBHOOK_FIELDS.apiVersion,
+      undefined,
+      {some: 'context', payload: PAYLOAD},
+    );
+    expect(httpCallback).not.toHaveBeenCalled();
+  });
+
+  it('accepts the raw request body', async () => {
+    const shopify = shopifyApi(testConfig());
+    const callback = jest.fn();
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...PUB_SUB_HANDLER, callback},
+    });
+
+    await shopify.webhooks.consumePubSub({
+      envelope: fs.readFileSync(
+        path.join(__dirname, 'fixtures', 'pubsub-push-envelope.json'),
+        'utf8',
+      ),
+    });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws if the message is missing headers', async () => {
+    const shopify = shopifyApi(testConfig());
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...PUB_SUB_HANDLER, callback: jest.fn()},
+    });
+
+    const envelope = loadFixture('pubsub-push-envelope.json');
+    delete envelope.message.attributes['X-Shopify-Topic'];
+
+    await expect(shopify.webhooks.consumePubSub({envelope})).rejects.toThrow(
+      new InvalidWebhookMessageError(
+        'Missing one or more of the required headers to process webhooks: [X-Shopify-Topic]',
+      ),
+    );
+  });
+
+  it('throws if the envelope has no message', async () => {
+    const shopify = shopifyApi(testConfig());
+
+    await expect(
+      shopify.webhooks.consumePubSub({envelope: '{"subscription": "sub"}'}),
+    ).rejects.toThrow(InvalidWebhookMessageError);
+  });
+
+  it('throws if there are no Pub/Sub handlers for the topic', async () => {
+    const shopify = shopifyApi(testConfig());
+    shopify.webhooks.addHandlers({PRODUCTS_CREATE: HTTP_HANDLER});
+
+    await expect(
+      shopify.webhooks.consumePubSub({
+        envelope: loadFixture('pubsub-push-envelope.json'),
+      }),
+    ).rejects.toThrow(
+      new WebhookHandlerError(
+        'No Pub/Sub webhooks registered for topic PRODUCTS_CREATE',
+      ),
+    );
+  });
+
+  it('skips duplicate messages, unless the handlers failed', async () => {
+    const shopify = shopifyApi(testConfig());
+    const callback = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Oh no'))
+      .mockResolvedValue(undefined);
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...PUB_SUB_HANDLER, callback},
+    });
+
+    const idempotencyStore = new MemoryWebhookIdempotencyStore();
+    const envelope = loadFixture('pubsub-push-envelope.json');
+
+    await expect(
+      shopify.webhooks.consumePubSub({envelope, idempotencyStore}),
+    ).rejects.toThrow(new WebhookHandlerError('Oh no'));
+
+    await expect(
+      shopify.webhooks.consumePubSub({envelope, idempotencyStore}),
+    ).resolves.toEqual({...WEBHOOK_FIELDS, duplicate: false});
+
+    await expect(
+      shopify.webhooks.consumePubSub({envelope, idempotencyStore}),
+    ).resolves.toEqual({...WEBHOOK_FIELDS, duplicate: true});
+
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('shopify.webhooks.consumeEventBridge', () => {
+  it('calls the EventBridge handlers with the event payload', async () => {
+    const shopify = shopifyApi(testConfig());
+    const callback = jest.fn();
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...EVENT_BRIDGE_HANDLER, callback},
+    });
+
+    const result = await shopify.webhooks.consumeEventBridge({
+      event: loadFixture('eventbridge-event.json'),
+    });
+
+    expect(result).toEqual({...WEBHOOK_FIELDS, duplicate: false});
+    expect(callback).toHaveBeenCalledWith(
+      WEBHOOK_FIELDS.topic,
+      WEBHOOK_FIELDS.domain,
+      JSON.stringify(PAYLOAD),
+      WEBHOOK_FIELDS.webhookId,
+      WEBHOOK_FIELDS.apiVersion,
+      undefined,
+      {payload: PAYLOAD},
+    );
+  });
+
+  it('throws if the event has no payload', async () => {
+    const shopify = shopifyApi(testConfig());
+
+    const event = loadFixture('eventbridge-event.json');
+    delete event.detail.payload;
+
+    await expect(shopify.webhooks.consumeEventBridge({event})).rejects.toThrow(
+      InvalidWebhookMessageError,
+    );
+  });
+
+  it('throws if a handler has no callback', async () => {
+    const shopify = shopifyApi(testConfig());
+    shopify.webhooks.addHandlers({PRODUCTS_CREATE: EVENT_BRIDGE_HANDLER});
+
+    await expect(
+      shopify.webhooks.consumeEventBridge({
+        event: loadFixture('eventbridge-event.json'),
+      }),
+    ).rejects.toThrow(
+      "Cannot call webhooks.consumeEventBridge with a webhook handler that doesn't have a callback",
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import {MemoryWebhookIdempotencyStore} from '../idempotency';
+
+describe('MemoryWebhookIdempotencyStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('only allows claiming a webhook once', async () => {
+    const store = new MemoryWebhookIdempotencyStore();
+
+    expect(await store.claim('123')).toBe(true);
+    expect(await store.claim('123')).toBe(false);
+    expect(await store.claim('456')).toBe(true);
+  });
+
+  it('allows claiming a webhook again after releasing it', async () => {
+    const store = new MemoryWebhookIdempotencyStore();
+
+    await store.claim('123');
+    await store.release('123');
+
+    expect(await store.claim('123')).toBe(true);
+  });
+
+  it('allows claiming a webhook again after its record expires', async () => {
+    jest.useFakeTimers();
+    const store = new MemoryWebhookIdempotencyStore({ttl: 60});
+
+    await store.claim('123');
+
+    jest.advanceTimersByTime(59 * 1000);
+    expect(await store.claim('123')).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    expect(await store.claim('123')).toBe(true);
+  });
+});
@@ -105,6 +105,7 @@ describe('webhooks', () => {
       webhookId,
       shopify.config.apiVersion,
       undefined,
+      {payload: JSON.parse(body)},
     );
     expect(handler3.callback).toHaveBeenCalledWith(
       topic,
@@ -113,6 +114,7 @@ describe('webhooks', () => {
       webhookId,
       shopify.config.apiVersion,
       undefined,
+      {payload: JSON.parse(body)},
     );
   });
 
@@ -3,7 +3,16 @@ import request from 'supertest';
 
 import {InvalidWebhookError} from '../../error';
 import {testConfig} from '../../__tests__/test-config';
-import {Shopify, shopifyApi} from '../..';
+import {
+  ApiVersion,
+  MemoryWebhookIdempotencyStore,
+  MemoryWebhookJobQueue,
+  Shopify,
+  shopifyApi,
+  WebhookIdempotencyStore,
+  WebhookJobQueue,
+} from '../..';
+import {HttpWebhookHandler, HttpWebhookHandlerWithCallback} from '../types';
 
 import {
   HTTP_HANDLER,
@@ -119,6 +128,160 @@ describe('shopify.webhooks.process', () => {
     expect(blockingWebhookHandlerCalled).toBeTruthy();
   });
 
+  it('passes the parsed payload to the handlers', async () => {
+    const shopify = shopifyApi(
+      testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+    );
+    const app = getTestApp(shopify);
+
+    const callback = jest.fn();
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+    });
+
+    await request(app)
+      .post('/webhooks')
+      .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+      .send(rawBody)
+      .expect(StatusCode.Ok);
+
+    expect(callback).toHaveBeenCalledWith(
+      'PRODUCTS_CREATE',
+      'shop1.myshopify.io',
+      rawBody,
+      '123456789',
+      '2023-01',
+      undefined,
+      {payload: {foo: 'bar'}},
+    );
+  });
+
+  it('passes payloads typed for the given API version', async () => {
+    const shopify = shopifyApi(
+      testConfig({
+        apiSecretKey: 'kitties are cute',
+        isEmbeddedApp: true,
+        apiVersion: ApiVersion.October24,
+      }),
+    );
+    const app = getTestApp(shopify);
+
+    const orderBody = JSON.stringify({id: 1234, name: '#1001'});
+    let orderName: string | null | undefined;
+    shopify.webhooks.addHandlers<ApiVersion.October24>({
+      ORDERS_CREATE: {
+        ...HTTP_HANDLER,
+        callback: async (
+          _topic,
+          _shop,
+          _body,
+          _webhookId,
+          _apiVersion,
+          _subTopic,
+          context,
+        ) => {
+          orderName = context?.payload.name;
+        },
+      },
+    });
+
+    await request(app)
+      .post('/webhooks')
+      .set(
+        headers({
+          hmac: hmac(shopify.config.apiSecretKey, orderBody),
+          topic: 'orders/create',
+          apiVersion: ApiVersion.October24,
+        }),
+      )
+      .send(orderBody)
+      .expect(StatusCode.Ok);
+
+    expect(orderName).toEqual('#1001');
+  });
+
+  it('types payloads for topics in any format', async () => {
+    const shopify = shopifyApi(
+      testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+    );
+    const app = getTestApp(shopify);
+
+    const orderBody = JSON.stringify({id: 1234, name: '#1001'});
+    const orderNames: (string | null | undefined)[] = [];
+    shopify.webhooks.addHandlers({
+      'orders/create': {
+        ...HTTP_HANDLER,
+        callback: async (
+          _topic,
+          _shop,
+          _body,
+          _webhookId,
+          _apiVersion,
+          _subTopic,
+          context,
+        ) => {
+          // @ts-expect-error The payload is typed for ORDERS_CREATE
+          expect(context?.payload.not_a_field).toBeUndefined();
+          orderNames.push(context?.payload.name);
+        },
+      },
+      orders_create: {
+        ...HTTP_HANDLER,
+        callback: async (
+          _topic,
+          _shop,
+          _body,
+          _webhookId,
+          _apiVersion,
+          _subTopic,
+          context,
+        ) => {
+          // @ts-expect-error The payload is typed for ORDERS_CREATE
+          expect(context?.payload.not_a_field).toBeUndefined();
+          orderNames.push(context?.payload.name);
+        },
+      },
+    });
+
+    await request(app)
+      .post('/webhooks')
+      .set(
+        headers({
+          hmac: hmac(shopify.config.apiSecretKey, orderBody),
+          topic: 'orders/create',
+        }),
+      )
+      .send(orderBody)
+      .expect(StatusCode.Ok);
+
+    expect(orderNames).toEqual(['#1001', '#1001']);
+  });
+
+  it('fails if the body is not valid JSON', async () => {
+    const shopify = shopifyApi(
+      testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+    );
+    const app = getTestApp(shopify);
+
+    const callback = jest.fn();
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+    });
+
+    const invalidBody = 'not json';
+    const response = await request(app)
+      .post('/webhooks')
+      .set(headers({hmac: hmac(shopify.config.apiSecretKey, invalidBody)}))
+      .send(invalidBody)
+      .expect(StatusCode.BadRequest);
+
+    expect(response.body.data.errorThrown).toBeTruthy();
+    expect(response.body.data.message).toEqual(
+      'Webhook body is not valid JSON',
+    );
+    expect(callback).not.toHaveBeenCalled();
+  });
+
   it('handles the request when a event topic is already registered', async () => {
     jest.useRealTimers();
 
@@ -304,9 +467,220 @@ describe('shopify.webhooks.process', () => {
 
     expect(response.body.data.errorThrown).toBeTruthy();
   });
+
+  describe('with an idempotency store', () => {
+    it('skips the handlers for repeated deliveries', async () => {
+      const shopify = shopifyApi(
+        testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+      );
+      const app = getTestApp(shopify, {
+        idempotencyStore: new MemoryWebhookIdempotencyStore(),
+      });
+
+      const callback = jest.fn();
+      shopify.webhooks.addHandlers({
+        PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+      });
+
+      for (let i = 0; i < 2; i++) {
+        const response = await request(app)
+          .post('/webhooks')
+          .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+          .send(rawBody)
+          .expect(StatusCode.Ok);
+
+        expect(response.body.data.errorThrown).toBeFalsy();
+      }
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('calls the handlers for different webhook ids', async () => {
+      const shopify = shopifyApi(
+        testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+      );
+      const app = getTestApp(shopify, {
+        idempotencyStore: new MemoryWebhookIdempotencyStore(),
+      });
+
+      const callback = jest.fn();
+      shopify.webhooks.addHandlers({
+        PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+      });
+
+      for (const webhookId of ['1', '2']) {
+        await request(app)
+          .post('/webhooks')
+          .set(
+            headers({
+              hmac: hmac(shopify.config.apiSecretKey, rawBody),
+              webhookId,
+            }),
+          )
+          .send(rawBody)
+          .expect(StatusCode.Ok);
+      }
+
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('processes retries of webhooks that failed', async () => {
+      const shopify = shopifyApi(
+        testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+      );
+      const app = getTestApp(shopify, {
+        idempotencyStore: new MemoryWebhookIdempotencyStore(),
+      });
+
+      const callback = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Oh no something went wrong!'));
+      shopify.webhooks.addHandlers({
+        PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+      });
+
+      await request(app)
+        .post('/webhooks')
+        .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+        .send(rawBody)
+        .expect(StatusCode.InternalServerError);
+
+      await request(app)
+        .post('/webhooks')
+        .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+        .send(rawBody)
+        .expect(StatusCode.Ok);
+
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('processes retries of webhooks when the handlers throw', async () => {
+      const shopify = shopifyApi(
+        testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+      );
+      const app = getTestApp(shopify, {
+        idempotencyStore: new MemoryWebhookIdempotencyStore(),
+      });
+
+      const handler: HttpWebhookHandler = {...HTTP_HANDLER_WITHOUT_CALLBACK};
+      shopify.webhooks.addHandlers({PRODUCTS_CREATE: handler});
+
+      await request(app)
+        .post('/webhooks')
+        .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+        .send(rawBody)
+        .expect(StatusCode.InternalServerError);
+
+      const callback = jest.fn();
+      (handler as HttpWebhookHandlerWithCallback).callback = callback;
+
+      await request(app)
+        .post('/webhooks')
+        .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+        .send(rawBody)
+        .expect(StatusCode.Ok);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('with a job queue', () => {
+    it('adds the webhook to the queue without calling the handlers', async () => {
+      const shopify = shopifyApi(
+        testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+      );
+      const jobQueue = new MemoryWebhookJobQueue();
+      const app = getTestApp(shopify, {jobQueue});
+
+      const callback = jest.fn();
+      shopify.webhooks.addHandlers({
+        PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+      });
+
+      const response = await request(app)
+        .post('/webhooks')
+        .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+        .send(rawBody)
+        .expect(StatusCode.Ok);
+
+      expect(response.body.data.errorThrown).toBeFalsy();
+      expect(callback).not.toHaveBeenCalled();
+      expect(await jobQueue.dequeue(Date.now())).toEqual(
+        expect.objectContaining({
+          topic: 'PRODUCTS_CREATE',
+          domain: 'shop1.myshopify.io',
+          body: rawBody,
+          webhookId: '123456789',
+          apiVersion: '2023-01',
+        }),
+      );
+    });
+
+    it('does not queue webhooks for topics without HTTP handlers', async () => {
+      const shopify = shopifyApi(
+        testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+      );
+      const jobQueue = new MemoryWebhookJobQueue();
+      const app = getTestApp(shopify, {jobQueue});
+
+      const response = await request(app)
+        .post('/webhooks')
+        .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+        .send(rawBody)
+        .expect(StatusCode.NotFound);
+
+      expect(response.body.data.errorThrown).toBeTruthy();
+      expect(await jobQueue.dequeue(Date.now())).toBeUndefined();
+    });
+
+    it('processes retries of webhooks that could not be queued', async () => {
+      const shopify = shopifyApi(
+        testConfig({apiSecretKey: 'kitties are cute', isEmbeddedApp: true}),
+      );
+      const jobQueue = new MemoryWebhookJobQueue();
+      const app = getTestApp(shopify, {
+        jobQueue,
+        idempotencyStore: new MemoryWebhookIdempotencyStore(),
+      });
+
+      shopify.webhooks.addHandlers({PRODUCTS_CREATE: HTTP_HANDLER});
+      jest
+        .spyOn(jobQueue, 'enqueue')
+        .mockRejectedValueOnce(new Error('Connection lost'));
+
+      const response = await request(app)
+        .post('/webhooks')
+        .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+        .send(rawBody)
+        .expect(StatusCode.InternalServerError);
+
+      expect(response.body.data.message).toEqual(
+        'Failed to add the webhook to the queue: Connection lost',
+      );
+
+      await request(app)
+        .post('/webhooks')
+        .set(headers({hmac: hmac(shopify.config.apiSecretKey, rawBody)}))
+        .send(rawBody)
+        .expect(StatusCode.Ok);
+
+      expect(await jobQueue.dequeue(Date.now())).toEqual(
+        expect.objectContaining({webhookId: '123456789'}),
+      );
+    });
+  });
 });
 
-function getTestApp(shopify: Shopify) {
+function getTestApp(
+  shopify: Shopify,
+  {
+    idempotencyStore,
+    jobQueue,
+  }: {
+    idempotencyStore?: WebhookIdempotencyStore;
+    jobQueue?: WebhookJobQueue;
+  } = {},
+) {
   const app = getTestExpressApp();
   app.post('/webhooks', async (req, res) => {
     const data: TestResponseInterface = {
@@ -318,6 +692,8 @@ function getTestApp(shopify: Shopify) {
         rawBody: (req as any).rawBody,
         rawRequest: req,
         rawResponse: res,
+        idempotencyStore,
+        jobQueue,
       });
     } catch (error) {
       data.errorThrown = true;
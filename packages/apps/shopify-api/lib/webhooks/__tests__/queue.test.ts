@@ -0,0 +1,56 @@
+import {MemoryWebhookJobQueue} from '../queue';
+
+const JOB_DATA = {
+  topic: 'PRODUCTS_CREATE',
+  domain: 'shop1.myshopify.io',
+  body: '{"foo": "bar"}',
+  webhookId: '123456789',
+  apiVersion: '2023-01',
+};
+
+describe('MemoryWebhookJobQueue', () => {
+  it('returns due jobs in order, and hides them until the lock expires', async () => {
+    const queue = new MemoryWebhookJobQueue();
+    const first = await queue.enqueue(JOB_DATA);
+    const second = await queue.enqueue({...JOB_DATA, webhookId: '987654321'});
+
+    const lockUntil = Date.now() + 60000;
+    expect(await queue.dequeue(lockUntil)).toEqual({
+      ...first,
+      attempts: 1,
+      runAt: lockUntil,
+    });
+    expect((await queue.dequeue(lockUntil))?.id).toEqual(second.id);
+    expect(await queue.dequeue(lockUntil)).toBeUndefined();
+  });
+
+  it('removes completed jobs', async () => {
+    const queue = new MemoryWebhookJobQueue();
+    const job = await queue.enqueue(JOB_DATA);
+
+    await queue.dequeue(Date.now() - 1);
+    await queue.complete(job.id);
+
+    expect(await queue.dequeue(Date.now())).toBeUndefined();
+  });
+
+  it('moves jobs to the dead-letter list and replays them', async () => {
+    const queue = new MemoryWebhookJobQueue();
+    const job = await queue.enqueue(JOB_DATA);
+
+    await queue.dequeue(Date.now());
+    await queue.deadLetter(job.id, 'Something went wrong');
+
+    expect(await queue.dequeue(Date.now())).toBeUndefined();
+    expect(await queue.listDeadLetters()).toEqual([
+      expect.objectContaining({id: job.id, lastError: 'Something went wrong'}),
+    ]);
+
+    await queue.replay(job.id);
+
+    expect(await queue.listDeadLetters()).toEqual([]);
+    expect(await queue.dequeue(Date.now())).toEqual(
+      expect.objectContaining({id: job.id, attempts: 1}),
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import {DeliveryMethod, WebhookOperation} from '../types';
+import {queueMockResponses} from '../../__tests__/test-helper';
+import {testConfig} from '../../__tests__/test-config';
+import {mockTestRequests} from '../../../adapters/mock/mock_test_requests';
+import {Session} from '../../session/session';
+import {shopifyApi} from '../..';
+
+import * as mockResponses from './responses';
+import {EVENT_BRIDGE_HANDLER, HTTP_HANDLER} from './handlers';
+
+const session = new Session({
+  id: 'test-session',
+  shop: 'shop1.myshopify.io',
+  accessToken: 'some token',
+  isOnline: true,
+  state: 'test-state',
+});
+
+describe('shopify.webhooks.reconcile', () => {
+  it('returns the plan without changing subscriptions in a dry run', async () => {
+    const shopify = shopifyApi(testConfig());
+    shopify.webhooks.addHandlers({
+      PRODUCTS_UPDATE: {...HTTP_HANDLER, includeFields: ['id', 'title']},
+      PRODUCTS_DELETE: [HTTP_HANDLER, EVENT_BRIDGE_HANDLER],
+    });
+
+    queueMockResponses([
+      JSON.stringify(mockResponses.webhookCheckMultiHandlerResponse),
+    ]);
+
+    const reconcileReturn = await shopify.webhooks.reconcile({
+      session,
+      dryRun: true,
+    });
+
+    expect(mockTestRequests.requestList).toHaveLength(1);
+    expect(reconcileReturn).toEqual({
+      dryRun: true,
+      create: [
+        {
+          topic: 'PRODUCTS_DELETE',
+          deliveryMethod: DeliveryMethod.Http,
+          id: undefined,
+          address: 'https://test_host_name/webhooks',
+        },
+        {
+          topic: 'PRODUCTS_DELETE',
+          deliveryMethod: DeliveryMethod.EventBridge,
+          id: undefined,
+          address: 'arn:test',
+        },
+      ],
+      update: [
+        {
+          topic: 'PRODUCTS_UPDATE',
+          deliveryMethod: DeliveryMethod.Http,
+          id: `${mockResponses.TEST_WEBHOOK_ID}-2`,
+          address: 'https://test_host_name/webhooks',
+        },
+      ],
+      delete: [
+        {
+          topic: 'PRODUCTS_CREATE',
+          deliveryMethod: DeliveryMethod.Http,
+          id: mockResponses.TEST_WEBHOOK_ID,
+          address: 'https://test_host_name/webhooks',
+        },
+      ],
+    });
+  });
+
+  it('applies the plan and returns the result of each change', async () => {
+    const shopify = shopifyApi(testConfig());
+    shopify.webhooks.addHandlers({
+      PRODUCTS_UPDATE: {...HTTP_HANDLER, includeFields: ['id', 'title']},
+      PRODUCTS_DELETE: HTTP_HANDLER,
+    });
+
+    queueMockResponses(
+      [JSON.stringify(mockResponses.webhookCheckMultiHandlerResponse)],
+      [JSON.stringify(mockResponses.successUpdateResponse)],
+      [JSON.stringify(mockResponses.successResponse)],
+      [JSON.stringify(mockResponses.successDeleteResponse)],
+    );
+
+    const reconcileReturn = await shopify.webhooks.reconcile({session});
+
+    expect(mockTestRequests.requestList).toHaveLength(4);
+    expect(reconcileReturn.dryRun).toBe(false);
+    expect(reconcileReturn.update[0].result).toEqual({
+      deliveryMethod: DeliveryMethod.Http,
+      success: true,
+      result: mockResponses.successUpdateResponse,
+      operation: WebhookOperation.Update,
+    });
+    expect(reconcileReturn.create[0].result).toEqual({
+      deliveryMethod: DeliveryMethod.Http,
+      success: true,
+      result: mockResponses.successResponse,
+      operation: WebhookOperation.Create,
+    });
+    expect(reconcileReturn.delete[0].result).toEqual({
+      deliveryMethod: DeliveryMethod.Http,
+      success: true,
+      result: mockResponses.successDeleteResponse,
+      operation: WebhookOperation.Delete,
+    });
+  });
+
+  it('deletes orphaned subscriptions for any delivery method', async () => {
+    const shopify = shopifyApi(testConfig());
+
+    queueMockResponses(
+      [JSON.stringify(mockResponses.pubSubWebhookCheckResponse)],
+      [JSON.stringify(mockResponses.successDeleteResponse)],
+    );
+
+    const reconcileReturn = await shopify.webhooks.reconcile({session});
+
+    expect(mockTestRequests.requestList).toHaveLength(2);
+    expect(reconcileReturn.create).toEqual([]);
+    expect(reconcileReturn.update).toEqual([]);
+    expect(reconcileReturn.delete).toEqual([
+      {
+        topic: 'PRODUCTS_CREATE',
+        deliveryMethod: DeliveryMethod.PubSub,
+        id: mockResponses.TEST_WEBHOOK_ID,
+        address: 'pubsub://my-project-id:my-topic-id',
+        result: expect.objectContaining({success: true}),
+      },
+    ]);
+  });
+
+  it('does not plan changes for privacy topics', async () => {
+    const shopify = shopifyApi(testConfig());
+    shopify.webhooks.addHandlers({SHOP_REDACT: HTTP_HANDLER});
+
+    queueMockResponses([
+      JSON.stringify(mockResponses.webhookCheckEmptyResponse),
+    ]);
+
+    const reconcileReturn = await shopify.webhooks.reconcile({session});
+
+    expect(mockTestRequests.requestList).toHaveLength(1);
+    expect(reconcileReturn).toEqual({
+      dryRun: false,
+      create: [],
+      update: [],
+      delete: [],
+    });
+  });
+});
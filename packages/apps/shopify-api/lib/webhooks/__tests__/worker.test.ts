@@ -0,0 +1,121 @@
+import {testConfig} from '../../__tests__/test-config';
+import {shopifyApi} from '../..';
+import {MemoryWebhookJobQueue} from '../queue';
+
+import {HTTP_HANDLER} from './handlers';
+
+const JOB_DATA = {
+  topic: 'PRODUCTS_CREATE',
+  domain: 'shop1.myshopify.io',
+  body: '{"foo": "bar"}',
+  webhookId: '123456789',
+  apiVersion: '2023-01',
+};
+
+describe('shopify.webhooks.createWorker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs the handlers for queued webhooks', async () => {
+    const shopify = shopifyApi(testConfig());
+    const callback = jest.fn();
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+    });
+
+    const jobQueue = new MemoryWebhookJobQueue();
+    await jobQueue.enqueue(JOB_DATA);
+
+    await shopify.webhooks.createWorker({jobQueue}).runPendingJobs();
+
+    expect(callback).toHaveBeenCalledWith(
+      JOB_DATA.topic,
+      JOB_DATA.domain,
+      JOB_DATA.body,
+      JOB_DATA.webhookId,
+      JOB_DATA.apiVersion,
+      undefined,
+      {payload: {foo: 'bar'}},
+    );
+    expect(await jobQueue.dequeue(Date.now())).toBeUndefined();
+  });
+
+  it('retries failed jobs with exponential backoff', async () => {
+    jest.useFakeTimers();
+    const shopify = shopifyApi(testConfig());
+    const callback = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Oh no'))
+      .mockRejectedValueOnce(new Error('Oh no'));
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+    });
+
+    const jobQueue = new MemoryWebhookJobQueue();
+    await jobQueue.enqueue(JOB_DATA);
+    const worker = shopify.webhooks.createWorker({jobQueue, retryDelay: 1000});
+
+    await worker.runPendingJobs();
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(999);
+    await worker.runPendingJobs();
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1);
+    await worker.runPendingJobs();
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1999);
+    await worker.runPendingJobs();
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1);
+    await worker.runPendingJobs();
+    expect(callback).toHaveBeenCalledTimes(3);
+
+    expect(await jobQueue.listDeadLetters()).toEqual([]);
+  });
+
+  it('moves jobs to the dead-letter list after the last attempt', async () => {
+    const shopify = shopifyApi(testConfig());
+    const callback = jest.fn().mockRejectedValue(new Error('Oh no'));
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+    });
+
+    const jobQueue = new MemoryWebhookJobQueue();
+    await jobQueue.enqueue(JOB_DATA);
+    const worker = shopify.webhooks.createWorker({
+      jobQueue,
+      maxAttempts: 2,
+      retryDelay: 0,
+    });
+
+    await worker.runPendingJobs();
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(await jobQueue.listDeadLetters()).toEqual([
+      expect.objectContaining({...JOB_DATA, attempts: 2, lastError: 'Oh no'}),
+    ]);
+  });
+
+  it('checks for jobs periodically once started', async () => {
+    const shopify = shopifyApi(testConfig());
+    const callback = jest.fn();
+    shopify.webhooks.addHandlers({
+      PRODUCTS_CREATE: {...HTTP_HANDLER, callback},
+    });
+
+    const jobQueue = new MemoryWebhookJobQueue();
+    const worker = shopify.webhooks.createWorker({jobQueue, pollInterval: 10});
+
+    worker.start();
+    await jobQueue.enqueue(JOB_DATA);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await worker.stop();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
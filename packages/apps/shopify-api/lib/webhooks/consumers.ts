@@ -0,0 +1,171 @@
+import {Headers} from '../../runtime/http';
+import {ConfigInterface} from '../base-types';
+import * as ShopifyErrors from '../error';
+import {logger} from '../logger';
+
+import {
+  callWebhookHandlers,
+  HandlerCallResult,
+  WebhookHandlerFields,
+} from './process';
+import {
+  DeliveryMethod,
+  HttpWebhookHandlerWithCallback,
+  PubSubPushEnvelope,
+  WebhookConsumeEventBridgeParams,
+  WebhookConsumePubSubParams,
+  WebhookConsumeResult,
+  WebhookIdempotencyStore,
+  WebhookRegistry,
+  WebhookValidationErrorReason,
+} from './types';
+import {checkWebhookHeaders} from './validate';
+
+export function consumePubSub(
+  config: ConfigInterface,
+  webhookRegistry: WebhookRegistry<HttpWebhookHandlerWithCallback>,
+) {
+  return async function consumePubSub({
+    envelope,
+    context,
+    idempotencyStore,
+  }: WebhookConsumePubSubParams): Promise<WebhookConsumeResult> {
+    await logger(config).info('Receiving Pub/Sub webhook message');
+
+    const {message} = parseEnvelope(envelope);
+    if (!message?.attributes || typeof message.data !== 'string') {
+      throw new ShopifyErrors.InvalidWebhookMessageError(
+        'Pub/Sub message is missing its data or attributes',
+      );
+    }
+
+    return dispatch({
+      config,
+      webhookRegistry,
+      deliveryMethod: DeliveryMethod.PubSub,
+      headers: message.attributes,
+      rawBody: decodeBase64(message.data),
+      context,
+      idempotencyStore,
+    });
+  };
+}
+
+export function consumeEventBridge(
+  config: ConfigInterface,
+  webhookRegistry: WebhookRegistry<HttpWebhookHandlerWithCallback>,
+) {
+  return async function consumeEventBridge({
+    event,
+    context,
+    idempotencyStore,
+  }: WebhookConsumeEventBridgeParams): Promise<WebhookConsumeResult> {
+    await logger(config).info('Receiving EventBridge webhook event');
+
+    if (!event?.detail?.metadata || event.detail.payload === undefined) {
+      throw new ShopifyErrors.InvalidWebhookMessageError(
+        'EventBridge event is missing its metadata or payload',
+      );
+    }
+
+    return dispatch({
+      config,
+      webhookRegistry,
+      deliveryMethod: DeliveryMethod.EventBridge,
+      headers: event.detail.metadata,
+      rawBody: JSON.stringify(event.detail.payload),
+      context,
+      idempotencyStore,
+    });
+  };
+}
+
+function parseEnvelope(
+  envelope: PubSubPushEnvelope | string,
+): Partial<PubSubPushEnvelope> {
+  if (typeof envelope !== 'string') {
+    return envelope ?? {};
+  }
+
+  try {
+    return JSON.parse(envelope);
+  } catch (error) {
+    throw new ShopifyErrors.InvalidWebhookMessageError(
+      `Pub/Sub push request body is not valid JSON: ${error.message}`,
+    );
+  }
+}
+
+// Payloads are UTF-8, so we can't use the result of atob directly
+function decodeBase64(data: string): string {
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+interface DispatchParams {
+  config: ConfigInterface;
+  webhookRegistry: WebhookRegistry<HttpWebhookHandlerWithCallback>;
+  deliveryMethod: DeliveryMethod;
+  headers: Headers;
+  rawBody: string;
+  context: any;
+  idempotencyStore?: WebhookIdempotencyStore;
+}
+
+async function dispatch({
+  config,
+  webhookRegistry,
+  deliveryMethod,
+  headers,
+  rawBody,
+  context,
+  idempotencyStore,
+}: DispatchParams): Promise<WebhookConsumeResult> {
+  const webhookCheck = checkWebhookHeaders(headers, {requireHmac: false});
+  if (!webhookCheck.valid) {
+    const missingHeaders =
+      webhookCheck.reason === WebhookValidationErrorReason.MissingHeaders
+        ? webhookCheck.missingHeaders
+        : [];
+
+    throw new ShopifyErrors.InvalidWebhookMessageError(
+      `Missing one or more of the required headers to process webhooks: [${missingHeaders.join(', ')}]`,
+    );
+  }
+
+  const {hmac: _hmac, valid: _valid, ...webhookFields} = webhookCheck;
+  const fields: WebhookHandlerFields = webhookFields;
+
+  if (idempotencyStore && !(await idempotencyStore.claim(fields.webhookId))) {
+    await logger(config).debug(
+      'Webhook was already processed, skipping handlers',
+      {webhookId: fields.webhookId, topic: fields.topic},
+    );
+
+    return {...fields, duplicate: true};
+  }
+
+  let result: HandlerCallResult;
+  try {
+    result = await callWebhookHandlers(
+      config,
+      webhookRegistry,
+      fields,
+      rawBody,
+      context,
+      deliveryMethod,
+    );
+  } catch (error) {
+    await idempotencyStore?.release(fields.webhookId);
+    throw error;
+  }
+
+  if (result.errorMessage) {
+    // Allow the message to be delivered again
+    await idempotencyStore?.release(fields.webhookId);
+
+    throw new ShopifyErrors.WebhookHandlerError(result.errorMessage);
+  }
+
+  return {...fields, duplicate: false};
+}
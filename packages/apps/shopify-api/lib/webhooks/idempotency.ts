@@ -0,0 +1,52 @@
+import {WebhookIdempotencyStore} from './types';
+
+/**
+ * Shopify retries webhooks for up to 48 hours, so we keep records for at least that long by default.
+ */
+export const DEFAULT_WEBHOOK_IDEMPOTENCY_TTL = 48 * 60 * 60;
+
+export interface MemoryWebhookIdempotencyStoreOptions {
+  /**
+   * How long to keep webhook records, in seconds.
+   */
+  ttl?: number;
+}
+
+/**
+ * Keeps webhook records in memory. Records are lost when the app restarts, and aren't shared across multiple
+ * instances of the app.
+ */
+export class MemoryWebhookIdempotencyStore implements WebhookIdempotencyStore {
+  private readonly ttl: number;
+  private records = new Map<string, number>();
+
+  constructor({
+    ttl = DEFAULT_WEBHOOK_IDEMPOTENCY_TTL,
+  }: MemoryWebhookIdempotencyStoreOptions = {}) {
+    this.ttl = ttl;
+  }
+
+  public async claim(webhookId: string): Promise<boolean> {
+    const now = Date.now();
+    this.removeExpiredRecords(now);
+
+    if (this.records.has(webhookId)) {
+      return false;
+    }
+
+    this.records.set(webhookId, now + this.ttl * 1000);
+    return true;
+  }
+
+  public async release(webhookId: string): Promise<void> {
+    this.records.delete(webhookId);
+  }
+
+  private removeExpiredRecords(now: number) {
+    for (const [webhookId, expiresAt] of this.records) {
+      if (expiresAt <= now) {
+        this.records.delete(webhookId);
+      }
+    }
+  }
+}
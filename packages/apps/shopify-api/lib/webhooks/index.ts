@@ -2,8 +2,11 @@ import {ConfigInterface} from '../base-types';
 
 import {addHandlers, getTopicsAdded, getHandlers, registry} from './registry';
 import {register} from './register';
+import {reconcile} from './reconcile';
 import {process} from './process';
+import {consumeEventBridge, consumePubSub} from './consumers';
 import {validateFactory} from './validate';
+import {createWorker} from './worker';
 import {HttpWebhookHandlerWithCallback, WebhookRegistry} from './types';
 
 interface Webhooks {
@@ -55,6 +58,14 @@ interface Webhooks {
    */
   register: ReturnType<typeof register>;
 
+  /**
+   * Compares the handlers in the registry with the shop's existing webhook subscriptions, and returns the subscriptions
+   * that need to be created, updated or deleted.
+   *
+   * Unless `dryRun` is set, the changes are applied, which deletes any subscriptions that are no longer in the registry.
+   */
+  reconcile: ReturnType<typeof reconcile>;
+
   /**
    * Processes a webhook request.
    *
@@ -67,6 +78,20 @@ interface Webhooks {
    */
   process: ReturnType<typeof process>;
 
+  /**
+   * Calls the callbacks of the `PubSub` handlers for a message delivered by a Google Cloud Pub/Sub push subscription.
+   *
+   * Throws if the message is malformed or a handler fails, so that Pub/Sub delivers it again.
+   */
+  consumePubSub: ReturnType<typeof consumePubSub>;
+
+  /**
+   * Calls the callbacks of the `EventBridge` handlers for an event delivered by an Amazon EventBridge rule.
+   *
+   * Throws if the event is malformed or a handler fails, so that EventBridge delivers it again.
+   */
+  consumeEventBridge: ReturnType<typeof consumeEventBridge>;
+
   /**
    * Validates an incoming request for `Http` handlers.
    *
@@ -76,6 +101,14 @@ interface Webhooks {
    *
    */
   validate: ReturnType<typeof validateFactory>;
+
+  /**
+   * Creates a worker that runs the `Http` handlers for webhooks added to a job queue by `process`.
+   *
+   * Failed jobs are retried with exponential backoff, and moved to the queue's dead-letter list once they run out of
+   * attempts.
+   */
+  createWorker: ReturnType<typeof createWorker>;
 }
 
 export function shopifyWebhooks(config: ConfigInterface): Webhooks {
@@ -86,11 +119,24 @@ export function shopifyWebhooks(config: ConfigInterface): Webhooks {
     getTopicsAdded: getTopicsAdded(webhookRegistry),
     getHandlers: getHandlers(webhookRegistry),
     register: register(config, webhookRegistry),
+    reconcile: reconcile(config, webhookRegistry),
     process: process(
       config,
       webhookRegistry as WebhookRegistry<HttpWebhookHandlerWithCallback>,
     ),
+    consumePubSub: consumePubSub(
+      config,
+      webhookRegistry as WebhookRegistry<HttpWebhookHandlerWithCallback>,
+    ),
+    consumeEventBridge: consumeEventBridge(
+      config,
+      webhookRegistry as WebhookRegistry<HttpWebhookHandlerWithCallback>,
+    ),
     validate: validateFactory(config),
+    createWorker: createWorker(
+      config,
+      webhookRegistry as WebhookRegistry<HttpWebhookHandlerWithCallback>,
+    ),
   };
 }
 
@@ -0,0 +1,636 @@
+// This file is generated by scripts/generate-webhook-payloads.mjs from the REST resources, do not edit it by hand.
+
+import {CommonWebhookPayloads, WebhookDeletedResource} from './common';
+
+interface Checkout {
+  billing_address: {[key: string]: unknown} | null;
+  line_items: {[key: string]: unknown}[] | null;
+  applied_discount: {[key: string]: unknown} | null;
+  buyer_accepts_marketing: boolean | null;
+  created_at: string | null;
+  currency: string | null;
+  customer_id: number | null;
+  discount_code: DiscountCode | null;
+  email: string | null;
+  gift_cards: GiftCard[] | null;
+  order: Order | null;
+  payment_due: string | null;
+  payment_url: string | null;
+  phone: string | null;
+  presentment_currency: string | null;
+  requires_shipping: boolean | null;
+  reservation_time: string | null;
+  reservation_time_left: number | null;
+  shipping_address: {[key: string]: unknown} | null;
+  shipping_line: {[key: string]: unknown} | null;
+  shipping_rate: {[key: string]: unknown} | null;
+  source_identifier: string | null;
+  source_name: string | null;
+  source_url: string | null;
+  subtotal_price: string | null;
+  tax_lines: {[key: string]: unknown}[] | null;
+  taxes_included: boolean | null;
+  token: string | null;
+  total_price: string | null;
+  total_tax: string | null;
+  updated_at: string | null;
+  user_id: number | null;
+  web_url: string | null;
+}
+
+interface Collection {
+  title: string | null;
+  body_html: string | null;
+  handle: string | null;
+  id: number | null;
+  image: Image | null;
+  published_at: string | null;
+  published_scope: string | null;
+  sort_order: string | null;
+  template_suffix: string | null;
+  updated_at: string | null;
+}
+
+interface CollectionListing {
+  body_html: string | null;
+  collection_id: number | null;
+  default_product_image: {[key: string]: unknown}[] | null;
+  handle: string | null;
+  image: Image | null;
+  published_at: string | null;
+  sort_order: string | null;
+  title: string | null;
+  updated_at: string | null;
+}
+
+interface Country {
+  code: string | null;
+  id: number | null;
+  name: string | null;
+  provinces: Province[] | null;
+  tax: number | null;
+}
+
+interface Customer {
+  accepts_marketing: boolean | null;
+  accepts_marketing_updated_at: string | null;
+  addresses: {[key: string]: unknown}[] | null;
+  created_at: string | null;
+  currency: string | null;
+  default_address: {[key: string]: unknown} | null;
+  email: string | null;
+  email_marketing_consent: {[key: string]: unknown} | null;
+  first_name: string | null;
+  id: number | null;
+  last_name: string | null;
+  last_order_id: number | null;
+  last_order_name: string | null;
+  marketing_opt_in_level: string | null;
+  metafield: Metafield | null;
+  multipass_identifier: string | null;
+  note: string | null;
+  orders_count: number | null;
+  password: string | null;
+  password_confirmation: string | null;
+  phone: string | null;
+  sms_marketing_consent: {[key: string]: unknown} | null;
+  state: string | null;
+  tags: string | null;
+  tax_exempt: boolean | null;
+  tax_exemptions: string[] | null;
+  total_spent: string | null;
+  updated_at: string | null;
+  verified_email: boolean | null;
+}
+
+interface DiscountCode {
+  code: string | null;
+  created_at: string | null;
+  errors: {[key: string]: unknown} | null;
+  id: number | null;
+  price_rule_id: number | null;
+  updated_at: string | null;
+  usage_count: number | null;
+}
+
+interface Dispute {
+  amount: string | null;
+  currency: string | null;
+  evidence_due_by: string | null;
+  evidence_sent_on: string | null;
+  finalized_on: string | null;
+  id: number | null;
+  network_reason_code: string | null;
+  order_id: number | null;
+  reason: string | null;
+  status: string | null;
+  type: string | null;
+}
+
+interface DraftOrder {
+  applied_discount: {[key: string]: unknown} | null;
+  billing_address: {[key: string]: unknown} | null;
+  completed_at: string | null;
+  created_at: string | null;
+  currency: string | null;
+  customer: Customer | null;
+  email: string | null;
+  id: number | null;
+  invoice_sent_at: string | null;
+  invoice_url: string | null;
+  line_items: {[key: string]: unknown}[] | null;
+  name: string | null;
+  note: string | null;
+  note_attributes: {[key: string]: unknown}[] | null;
+  order_id: number | null;
+  payment_terms: {[key: string]: unknown} | null;
+  shipping_address: {[key: string]: unknown} | null;
+  shipping_line: {[key: string]: unknown} | null;
+  source_name: string | null;
+  status: string | null;
+  subtotal_price: string | null;
+  tags: string | null;
+  tax_exempt: boolean | null;
+  tax_exemptions: string[] | null;
+  tax_lines: {[key: string]: unknown}[] | null;
+  taxes_included: boolean | null;
+  total_price: string | null;
+  total_tax: string | null;
+  updated_at: string | null;
+}
+
+interface Fulfillment {
+  created_at: string | null;
+  id: number | null;
+  line_items: {[key: string]: unknown}[] | null;
+  location_id: number | null;
+  name: string | null;
+  notify_customer: boolean | null;
+  order_id: number | null;
+  origin_address: {[key: string]: unknown}[] | null;
+  receipt: {[key: string]: unknown} | null;
+  service: string | null;
+  shipment_status: string | null;
+  status: string | null;
+  tracking_company: string | null;
+  tracking_number: string | null;
+  tracking_numbers: string[] | null;
+  tracking_url: string | null;
+  tracking_urls: string[] | null;
+  updated_at: string | null;
+  variant_inventory_management: string | null;
+}
+
+interface FulfillmentEvent {
+  address1: string | null;
+  city: string | null;
+  country: Country | null;
+  created_at: string | null;
+  estimated_delivery_at: string | null;
+  fulfillment_id: number | null;
+  happened_at: string | null;
+  id: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  message: string | null;
+  order_id: number | null;
+  province: Province | null;
+  shop_id: number | null;
+  status: string | null;
+  updated_at: string | null;
+  zip: string | null;
+}
+
+interface GiftCard {
+  api_client_id: number | null;
+  balance: string | null;
+  code: string | null;
+  created_at: string | null;
+  currency: string | null;
+  customer_id: number | null;
+  disabled_at: string | null;
+  expires_on: string | null;
+  id: number | null;
+  initial_value: string | null;
+  last_characters: string | null;
+  line_item_id: number | null;
+  note: string | null;
+  order_id: number | null;
+  template_suffix: string | null;
+  updated_at: string | null;
+  user_id: number | null;
+}
+
+interface Image {
+  created_at: string | null;
+  height: number | null;
+  id: number | null;
+  position: number | null;
+  product_id: number | null;
+  src: string | null;
+  updated_at: string | null;
+  variant_ids: number[] | null;
+  width: number | null;
+}
+
+interface InventoryItem {
+  cost: string | null;
+  country_code_of_origin: string | null;
+  country_harmonized_system_codes: {[key: string]: unknown}[] | null;
+  created_at: string | null;
+  harmonized_system_code: number | null;
+  id: number | null;
+  province_code_of_origin: string | null;
+  requires_shipping: boolean | null;
+  sku: string | null;
+  tracked: boolean | null;
+  updated_at: string | null;
+}
+
+interface InventoryLevel {
+  available: number | null;
+  inventory_item_id: number | null;
+  location_id: number | null;
+  updated_at: string | null;
+}
+
+interface Location {
+  active: boolean | null;
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  country: string | null;
+  country_code: string | null;
+  created_at: string | null;
+  id: number | null;
+  legacy: boolean | null;
+  localized_country_name: string | null;
+  localized_province_name: string | null;
+  name: string | null;
+  phone: string | null;
+  province: string | null;
+  province_code: string | null;
+  updated_at: string | null;
+  zip: string | null;
+}
+
+interface Metafield {
+  key: string | null;
+  namespace: string | null;
+  value: string | number | number | boolean | string | null;
+  article_id: number | null;
+  blog_id: number | null;
+  collection_id: number | null;
+  created_at: string | null;
+  customer_id: number | null;
+  description: string | null;
+  draft_order_id: number | null;
+  id: number | null;
+  order_id: number | null;
+  owner_id: number | null;
+  owner_resource: string | null;
+  page_id: number | null;
+  product_id: number | null;
+  product_image_id: number | null;
+  type: string | null;
+  updated_at: string | null;
+  variant_id: number | null;
+}
+
+interface Order {
+  line_items: {[key: string]: unknown}[] | null;
+  app_id: number | null;
+  billing_address: {[key: string]: unknown} | null;
+  browser_ip: string | null;
+  buyer_accepts_marketing: boolean | null;
+  cancel_reason: string | null;
+  cancelled_at: string | null;
+  cart_token: string | null;
+  checkout_token: string | null;
+  client_details: {[key: string]: unknown} | null;
+  closed_at: string | null;
+  confirmation_number: string | null;
+  created_at: string | null;
+  currency: string | null;
+  current_subtotal_price: string | null;
+  current_subtotal_price_set: {[key: string]: unknown} | null;
+  current_total_discounts: string | null;
+  current_total_discounts_set: {[key: string]: unknown} | null;
+  current_total_duties_set: {[key: string]: unknown} | null;
+  current_total_price: string | null;
+  current_total_price_set: {[key: string]: unknown} | null;
+  current_total_tax: string | null;
+  current_total_tax_set: {[key: string]: unknown} | null;
+  customer: Customer | null;
+  customer_locale: string | null;
+  discount_applications: {[key: string]: unknown}[] | null;
+  discount_codes: DiscountCode[] | null;
+  email: string | null;
+  estimated_taxes: boolean | null;
+  financial_status: string | null;
+  fulfillment_status: string | null;
+  fulfillments: Fulfillment[] | null;
+  gateway: string | null;
+  id: number | null;
+  landing_site: string | null;
+  location_id: number | null;
+  merchant_of_record_app_id: number | null;
+  name: string | null;
+  note: string | null;
+  note_attributes: {[key: string]: unknown}[] | null;
+  number: number | null;
+  order_number: number | null;
+  order_status_url: string | null;
+  original_total_duties_set: {[key: string]: unknown} | null;
+  payment_details: {[key: string]: unknown} | null;
+  payment_gateway_names: string[] | null;
+  payment_terms: {[key: string]: unknown} | null;
+  phone: string | null;
+  presentment_currency: string | null;
+  processed_at: string | null;
+  processing_method: string | null;
+  referring_site: string | null;
+  refunds: Refund[] | null;
+  shipping_address: {[key: string]: unknown} | null;
+  shipping_lines: {[key: string]: unknown}[] | null;
+  source_identifier: string | null;
+  source_name: string | null;
+  source_url: string | null;
+  subtotal_price: string | null;
+  subtotal_price_set: {[key: string]: unknown} | null;
+  tags: string | null;
+  tax_lines: {[key: string]: unknown}[] | null;
+  taxes_included: boolean | null;
+  test: boolean | null;
+  token: string | null;
+  total_discounts: string | null;
+  total_discounts_set: {[key: string]: unknown} | null;
+  total_line_items_price: string | null;
+  total_line_items_price_set: {[key: string]: unknown} | null;
+  total_outstanding: string | null;
+  total_price: string | null;
+  total_price_set: {[key: string]: unknown} | null;
+  total_shipping_price_set: {[key: string]: unknown} | null;
+  total_tax: string | number | null;
+  total_tax_set: {[key: string]: unknown} | null;
+  total_tip_received: string | null;
+  total_weight: number | null;
+  updated_at: string | null;
+  user_id: number | null;
+}
+
+interface Product {
+  title: string | null;
+  body_html: string | null;
+  created_at: string | null;
+  handle: string | null;
+  id: number | null;
+  images: Image[] | null;
+  options: {[key: string]: unknown} | {[key: string]: unknown}[] | null;
+  product_type: string | null;
+  published_at: string | null;
+  published_scope: string | null;
+  status: string | null;
+  tags: string | string[] | null;
+  template_suffix: string | null;
+  updated_at: string | null;
+  variants: Variant[] | null;
+  vendor: string | null;
+}
+
+interface ProductListing {
+  body_html: string | null;
+  created_at: string | null;
+  handle: string | null;
+  images: Image[] | null;
+  options: {[key: string]: unknown}[] | null;
+  product_id: number | null;
+  product_type: string | null;
+  published_at: string | null;
+  tags: string | null;
+  title: string | null;
+  updated_at: string | null;
+  variants: Variant[] | null;
+  vendor: string | null;
+}
+
+interface Province {
+  code: string | null;
+  country_id: number | null;
+  id: number | null;
+  name: string | null;
+  shipping_zone_id: number | null;
+  tax: number | null;
+  tax_name: string | null;
+  tax_percentage: number | null;
+  tax_type: string | null;
+}
+
+interface Refund {
+  created_at: string | null;
+  duties: {[key: string]: unknown}[] | null;
+  id: number | null;
+  note: string | null;
+  order_adjustments: {[key: string]: unknown}[] | null;
+  order_id: number | null;
+  processed_at: string | null;
+  refund_duties: {[key: string]: unknown}[] | null;
+  refund_line_items: {[key: string]: unknown}[] | null;
+  restock: boolean | null;
+  transactions: Transaction[] | null;
+  user_id: number | null;
+}
+
+interface Shop {
+  address1: string | null;
+  address2: string | null;
+  checkout_api_supported: boolean | null;
+  city: string | null;
+  country: string | null;
+  country_code: string | null;
+  country_name: string | null;
+  county_taxes: boolean | null;
+  created_at: string | null;
+  currency: string | null;
+  customer_email: string | null;
+  domain: string | null;
+  eligible_for_card_reader_giveaway: boolean | null;
+  eligible_for_payments: boolean | null;
+  email: string | null;
+  enabled_presentment_currencies: string[] | null;
+  finances: boolean | null;
+  force_ssl: boolean | null;
+  google_apps_domain: string | null;
+  google_apps_login_enabled: string | null;
+  has_discounts: boolean | null;
+  has_gift_cards: boolean | null;
+  has_storefront: boolean | null;
+  iana_timezone: string | null;
+  id: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  marketing_sms_consent_enabled_at_checkout: boolean | null;
+  money_format: string | null;
+  money_in_emails_format: string | null;
+  money_with_currency_format: string | null;
+  money_with_currency_in_emails_format: string | null;
+  multi_location_enabled: boolean | null;
+  myshopify_domain: string | null;
+  name: string | null;
+  password_enabled: boolean | null;
+  phone: string | null;
+  plan_display_name: string | null;
+  plan_name: string | null;
+  pre_launch_enabled: boolean | null;
+  primary_locale: string | null;
+  primary_location_id: number | null;
+  province: string | null;
+  province_code: string | null;
+  requires_extra_payments_agreement: boolean | null;
+  setup_required: boolean | null;
+  shop_owner: string | null;
+  source: string | null;
+  tax_shipping: string | null;
+  taxes_included: boolean | null;
+  timezone: string | null;
+  transactional_sms_disabled: boolean | null;
+  updated_at: string | null;
+  weight_unit: string | null;
+  zip: string | null;
+}
+
+interface TenderTransaction {
+  amount: string | null;
+  currency: string | null;
+  id: number | null;
+  order_id: number | null;
+  payment_details: {[key: string]: unknown} | null;
+  payment_method: string | null;
+  processed_at: string | null;
+  remote_reference: string | null;
+  test: boolean | null;
+  user_id: number | null;
+}
+
+interface Theme {
+  created_at: string | null;
+  id: number | null;
+  name: string | null;
+  previewable: boolean | null;
+  processing: boolean | null;
+  role: string | null;
+  src: string | null;
+  theme_store_id: number | null;
+  updated_at: string | null;
+}
+
+interface Transaction {
+  kind: string | null;
+  amount: string | null;
+  authorization: string | null;
+  authorization_expires_at: string | null;
+  created_at: string | null;
+  currency: string | null;
+  currency_exchange_adjustment: {[key: string]: unknown} | null;
+  device_id: number | null;
+  error_code: string | null;
+  extended_authorization_attributes: {[key: string]: unknown} | null;
+  gateway: string | null;
+  id: number | null;
+  location_id: number | null;
+  message: string | null;
+  order_id: number | null;
+  parent_id: number | null;
+  payment_details: {[key: string]: unknown} | null;
+  payments_refund_attributes: {[key: string]: unknown} | null;
+  processed_at: string | null;
+  receipt: {[key: string]: unknown} | null;
+  source_name: string | null;
+  status: string | null;
+  test: boolean | null;
+  user_id: number | null;
+}
+
+interface Variant {
+  barcode: string | null;
+  compare_at_price: string | null;
+  created_at: string | null;
+  fulfillment_service: string | null;
+  grams: number | null;
+  id: number | null;
+  image_id: number | null;
+  inventory_item_id: number | null;
+  inventory_management: string | null;
+  inventory_policy: string | null;
+  inventory_quantity: number | null;
+  old_inventory_quantity: number | null;
+  option: {[key: string]: unknown} | null;
+  position: number | null;
+  presentment_prices: {[key: string]: unknown}[] | null;
+  price: string | null;
+  product_id: number | null;
+  requires_shipping: boolean | null;
+  sku: string | null;
+  tax_code: string | null;
+  taxable: boolean | null;
+  title: string | null;
+  updated_at: string | null;
+  weight: number | null;
+  weight_unit: string | null;
+}
+
+/**
+ * Maps webhook topics to the type of their payload in API version 2022-10.
+ */
+export interface WebhookPayloads extends CommonWebhookPayloads {
+  APP_UNINSTALLED: Shop;
+  CHECKOUTS_CREATE: Checkout;
+  CHECKOUTS_DELETE: WebhookDeletedResource;
+  CHECKOUTS_UPDATE: Checkout;
+  COLLECTIONS_CREATE: Collection;
+  COLLECTIONS_DELETE: WebhookDeletedResource;
+  COLLECTIONS_UPDATE: Collection;
+  COLLECTION_LISTINGS_ADD: CollectionListing;
+  COLLECTION_LISTINGS_UPDATE: CollectionListing;
+  CUSTOMERS_CREATE: Customer;
+  CUSTOMERS_DELETE: WebhookDeletedResource;
+  CUSTOMERS_DISABLE: Customer;
+  CUSTOMERS_ENABLE: Customer;
+  CUSTOMERS_UPDATE: Customer;
+  DISPUTES_CREATE: Dispute;
+  DISPUTES_UPDATE: Dispute;
+  DRAFT_ORDERS_CREATE: DraftOrder;
+  DRAFT_ORDERS_DELETE: WebhookDeletedResource;
+  DRAFT_ORDERS_UPDATE: DraftOrder;
+  FULFILLMENTS_CREATE: Fulfillment;
+  FULFILLMENTS_UPDATE: Fulfillment;
+  FULFILLMENT_EVENTS_CREATE: FulfillmentEvent;
+  INVENTORY_ITEMS_CREATE: InventoryItem;
+  INVENTORY_ITEMS_DELETE: WebhookDeletedResource;
+  INVENTORY_ITEMS_UPDATE: InventoryItem;
+  INVENTORY_LEVELS_CONNECT: InventoryLevel;
+  INVENTORY_LEVELS_UPDATE: InventoryLevel;
+  LOCATIONS_CREATE: Location;
+  LOCATIONS_DELETE: WebhookDeletedResource;
+  LOCATIONS_UPDATE: Location;
+  ORDERS_CANCELLED: Order;
+  ORDERS_CREATE: Order;
+  ORDERS_DELETE: WebhookDeletedResource;
+  ORDERS_FULFILLED: Order;
+  ORDERS_PAID: Order;
+  ORDERS_PARTIALLY_FULFILLED: Order;
+  ORDERS_UPDATED: Order;
+  ORDER_TRANSACTIONS_CREATE: Transaction;
+  PRODUCTS_CREATE: Product;
+  PRODUCTS_DELETE: WebhookDeletedResource;
+  PRODUCTS_UPDATE: Product;
+  PRODUCT_LISTINGS_ADD: ProductListing;
+  PRODUCT_LISTINGS_UPDATE: ProductListing;
+  REFUNDS_CREATE: Refund;
+  SHOP_UPDATE: Shop;
+  TENDER_TRANSACTIONS_CREATE: TenderTransaction;
+  THEMES_CREATE: Theme;
+  THEMES_DELETE: WebhookDeletedResource;
+  THEMES_PUBLISH: Theme;
+  THEMES_UPDATE: Theme;
+}
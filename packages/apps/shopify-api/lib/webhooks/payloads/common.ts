@@ -0,0 +1,83 @@
+// Payload shapes for webhook topics that don't match a REST resource, based on the examples in
+// https://shopify.dev/docs/api/webhooks. They are the same in every API version.
+
+export interface WebhookDeletedResource {
+  id: number;
+}
+
+export interface WebhookAppSubscription {
+  app_subscription: {
+    admin_graphql_api_id: string;
+    name: string;
+    status:
+      | 'ACTIVE'
+      | 'CANCELLED'
+      | 'DECLINED'
+      | 'EXPIRED'
+      | 'FROZEN'
+      | 'PENDING';
+    admin_graphql_api_shop_id: string;
+    created_at: string;
+    updated_at: string;
+    currency: string;
+    capped_amount: string | null;
+  };
+}
+
+export interface WebhookAppScopes {
+  id: number;
+  previous: string[];
+  current: string[];
+  updated_at: string;
+}
+
+export interface WebhookBulkOperation {
+  admin_graphql_api_id: string;
+  completed_at: string | null;
+  created_at: string;
+  error_code: string | null;
+  status: 'canceled' | 'completed' | 'failed' | 'running';
+  type: 'mutation' | 'query';
+}
+
+export interface WebhookCustomersDataRequest {
+  shop_id: number;
+  shop_domain: string;
+  orders_requested: number[];
+  customer: {
+    id: number;
+    email: string;
+    phone: string;
+  };
+  data_request: {
+    id: number;
+  };
+}
+
+export interface WebhookCustomersRedact {
+  shop_id: number;
+  shop_domain: string;
+  customer: {
+    id: number;
+    email: string;
+    phone: string;
+  };
+  orders_to_redact: number[];
+}
+
+export interface WebhookShopRedact {
+  shop_id: number;
+  shop_domain: string;
+}
+
+/**
+ * Maps the webhook topics that don't match a REST resource to the type of their payload.
+ */
+export interface CommonWebhookPayloads {
+  APP_SCOPES_UPDATE: WebhookAppScopes;
+  APP_SUBSCRIPTIONS_UPDATE: WebhookAppSubscription;
+  BULK_OPERATIONS_FINISH: WebhookBulkOperation;
+  CUSTOMERS_DATA_REQUEST: WebhookCustomersDataRequest;
+  CUSTOMERS_REDACT: WebhookCustomersRedact;
+  SHOP_REDACT: WebhookShopRedact;
+}
@@ -0,0 +1,63 @@
+import {ApiVersion, LATEST_API_VERSION} from '../../types';
+
+import {WebhookPayloadsByVersion} from './versions';
+
+export * from './common';
+export type {WebhookPayloadsByVersion};
+
+/**
+ * Maps webhook topics to the type of their payload in the given API version.
+ */
+export type WebhookPayloads<
+  Version extends ApiVersion = typeof LATEST_API_VERSION,
+> = WebhookPayloadsByVersion[Version];
+
+export type WebhookTopic<
+  Version extends ApiVersion = typeof LATEST_API_VERSION,
+> = keyof WebhookPayloads<Version> & string;
+
+type ReplaceAll<
+  Value extends string,
+  From extends string,
+  To extends string,
+> = Value extends `${infer Head}${From}${infer Tail}`
+  ? `${Head}${To}${ReplaceAll<Tail, From, To>}`
+  : Value;
+
+// Every way of writing a topic with a single `/` in place of an `_`, e.g. `orders/create` for `orders_create`
+type SlashedTopic<
+  Topic extends string,
+  Prefix extends string = '',
+> = Topic extends `${infer Head}_${infer Tail}`
+  ? `${Prefix}${Head}/${Tail}` | SlashedTopic<Tail, `${Prefix}${Head}_`>
+  : never;
+
+/**
+ * Converts a topic to the format handlers are stored under, e.g. `orders/create` to `ORDERS_CREATE`.
+ */
+export type NormalizedWebhookTopic<Topic extends string> = ReplaceAll<
+  ReplaceAll<Uppercase<Topic>, '/', '_'>,
+  '.',
+  '_'
+>;
+
+/**
+ * The topics with a known payload, in any of the formats accepted by `addHandlers`.
+ */
+export type WebhookTopicKey<
+  Version extends ApiVersion = typeof LATEST_API_VERSION,
+> =
+  | WebhookTopic<Version>
+  | Lowercase<WebhookTopic<Version>>
+  | SlashedTopic<Lowercase<WebhookTopic<Version>>>;
+
+/**
+ * The type of the payload for the given topic and API version, or `any` for topics without a known payload.
+ */
+export type WebhookPayload<
+  Topic extends string = string,
+  Version extends ApiVersion = typeof LATEST_API_VERSION,
+> =
+  NormalizedWebhookTopic<Topic> extends WebhookTopic<Version>
+    ? WebhookPayloads<Version>[NormalizedWebhookTopic<Topic>]
+    : any;
@@ -0,0 +1,31 @@
+// This file is generated by scripts/generate-webhook-payloads.mjs from the REST resources, do not edit it by hand.
+
+import {ApiVersion} from '../../types';
+
+import {WebhookPayloads as WebhookPayloads2022_10} from './2022-10';
+import {WebhookPayloads as WebhookPayloads2023_01} from './2023-01';
+import {WebhookPayloads as WebhookPayloads2023_04} from './2023-04';
+import {WebhookPayloads as WebhookPayloads2023_07} from './2023-07';
+import {WebhookPayloads as WebhookPayloads2023_10} from './2023-10';
+import {WebhookPayloads as WebhookPayloads2024_01} from './2024-01';
+import {WebhookPayloads as WebhookPayloads2024_04} from './2024-04';
+import {WebhookPayloads as WebhookPayloads2024_07} from './2024-07';
+import {WebhookPayloads as WebhookPayloads2024_10} from './2024-10';
+import {WebhookPayloads as WebhookPayloads2025_01} from './2025-01';
+
+/**
+ * Maps API versions to their webhook payload types. Versions without REST resources use the latest payload types.
+ */
+export interface WebhookPayloadsByVersion {
+  [ApiVersion.October22]: WebhookPayloads2022_10;
+  [ApiVersion.January23]: WebhookPayloads2023_01;
+  [ApiVersion.April23]: WebhookPayloads2023_04;
+  [ApiVersion.July23]: WebhookPayloads2023_07;
+  [ApiVersion.October23]: WebhookPayloads2023_10;
+  [ApiVersion.January24]: WebhookPayloads2024_01;
+  [ApiVersion.April24]: WebhookPayloads2024_04;
+  [ApiVersion.July24]: WebhookPayloads2024_07;
+  [ApiVersion.October24]: WebhookPayloads2024_10;
+  [ApiVersion.January25]: WebhookPayloads2025_01;
+  [ApiVersion.Unstable]: WebhookPayloads2025_01;
+}
@@ -13,16 +13,20 @@ import {logger} from '../logger';
 import {
   DeliveryMethod,
   HttpWebhookHandlerWithCallback,
+  WebhookFields,
+  WebhookJob,
+  WebhookJobQueue,
   WebhookProcessParams,
   WebhookRegistry,
   WebhookValidationErrorReason,
   WebhookValidationInvalid,
   WebhookValidationMissingHeaders,
-  WebhookValidationValid,
 } from './types';
 import {validateFactory} from './validate';
 
-interface HandlerCallResult {
+export type WebhookHandlerFields = Omit<WebhookFields, 'hmac'>;
+
+export interface HandlerCallResult {
   statusCode: StatusCode;
   errorMessage?: string;
 }
@@ -32,6 +36,18 @@ interface ErrorCallResult {
   errorMessage: string;
 }
 
+const DELIVERY_METHOD_LABELS: Record<DeliveryMethod, string> = {
+  [DeliveryMethod.Http]: 'HTTP',
+  [DeliveryMethod.PubSub]: 'Pub/Sub',
+  [DeliveryMethod.EventBridge]: 'EventBridge',
+};
+
+const DELIVERY_METHOD_CALLERS: Record<DeliveryMethod, string> = {
+  [DeliveryMethod.Http]: 'webhooks.process',
+  [DeliveryMethod.PubSub]: 'webhooks.consumePubSub',
+  [DeliveryMethod.EventBridge]: 'webhooks.consumeEventBridge',
+};
+
 const STATUS_TEXT_LOOKUP: Record<string, string> = {
   [StatusCode.Ok]: 'OK',
   [StatusCode.BadRequest]: 'Bad Request',
@@ -47,6 +63,8 @@ export function process(
   return async function process({
     context,
     rawBody,
+    idempotencyStore,
+    jobQueue,
     ...adapterArgs
   }: WebhookProcessParams): Promise<AdapterResponse> {
     const response: NormalizedResponse = {
@@ -64,17 +82,48 @@ export function process(
 
     let errorMessage = 'Unknown error while handling webhook';
     if (webhookCheck.valid) {
-      const handlerResult = await callWebhookHandlers(
-        config,
-        webhookRegistry,
-        webhookCheck,
-        rawBody,
-        context,
-      );
+      if (
+        idempotencyStore &&
+        !(await idempotencyStore.claim(webhookCheck.webhookId))
+      ) {
+        await logger(config).debug(
+          'Webhook was already processed, skipping handlers',
+          {webhookId: webhookCheck.webhookId, topic: webhookCheck.topic},
+        );
+
+        return abstractConvertResponse(response, adapterArgs);
+      }
+
+      const {hmac: _hmac, valid: _valid, ...webhookFields} = webhookCheck;
+
+      let handlerResult: HandlerCallResult;
+      try {
+        handlerResult = jobQueue
+          ? await enqueueWebhook(
+              config,
+              webhookRegistry,
+              jobQueue,
+              webhookFields,
+              rawBody,
+            )
+          : await callWebhookHandlers(
+              config,
+              webhookRegistry,
+              webhookFields,
+              rawBody,
+              context,
+            );
+      } catch (error) {
+        await idempotencyStore?.release(webhookCheck.webhookId);
+        throw error;
+      }
 
       response.statusCode = handlerResult.statusCode;
       if (!isOK(response)) {
         errorMessage = handlerResult.errorMessage || errorMessage;
+
+        // Allow Shopify's retries to process the webhook again
+        await idempotencyStore?.release(webhookCheck.webhookId);
       }
     } else {
       const errorResult = await handleInvalidWebhook(config, webhookCheck);
@@ -96,34 +145,107 @@ export function process(
   };
 }
 
-async function callWebhookHandlers(
+async function enqueueWebhook(
   config: ConfigInterface,
   webhookRegistry: WebhookRegistry<HttpWebhookHandlerWithCallback>,
-  webhookCheck: WebhookValidationValid,
+  jobQueue: WebhookJobQueue,
+  webhookFields: WebhookHandlerFields,
+  rawBody: string,
+): Promise<HandlerCallResult> {
+  const hasHttpHandlers = (webhookRegistry[webhookFields.topic] || []).some(
+    (handler) => handler.deliveryMethod === DeliveryMethod.Http,
+  );
+
+  if (!hasHttpHandlers) {
+    await logger(config).debug('No HTTP handlers found', webhookFields);
+
+    return {
+      statusCode: StatusCode.NotFound,
+      errorMessage: `No HTTP webhooks registered for topic ${webhookFields.topic}`,
+    };
+  }
+
+  let job: WebhookJob;
+  try {
+    job = await jobQueue.enqueue({
+      topic: webhookFields.topic,
+      domain: webhookFields.domain,
+      body: rawBody,
+      webhookId: webhookFields.webhookId,
+      apiVersion: webhookFields.apiVersion,
+      subTopic: webhookFields.subTopic,
+    });
+  } catch (error) {
+    await logger(config).error(
+      `Failed to add the webhook to the queue: ${error.message}`,
+      webhookFields,
+    );
+
+    // Responding with an error makes Shopify deliver the webhook again
+    return {
+      statusCode: StatusCode.InternalServerError,
+      errorMessage: `Failed to add the webhook to the queue: ${error.message}`,
+    };
+  }
+
+  await logger(config).debug(
+    'Webhook request is valid, added it to the queue',
+    {
+      ...webhookFields,
+      jobId: job.id,
+    },
+  );
+
+  return {statusCode: StatusCode.Ok};
+}
+
+export async function callWebhookHandlers(
+  config: ConfigInterface,
+  webhookRegistry: WebhookRegistry<HttpWebhookHandlerWithCallback>,
+  webhookFields: WebhookHandlerFields,
   rawBody: string,
   context: any,
+  deliveryMethod = DeliveryMethod.Http,
 ): Promise<HandlerCallResult> {
   const log = logger(config);
-  const {hmac: _hmac, valid: _valid, ...loggingContext} = webhookCheck;
+  const label = DELIVERY_METHOD_LABELS[deliveryMethod];
 
   await log.debug(
-    'Webhook request is valid, looking for HTTP handlers to call',
-    loggingContext,
+    `Webhook request is valid, looking for ${label} handlers to call`,
+    webhookFields,
   );
 
-  const handlers = webhookRegistry[webhookCheck.topic] || [];
+  const handlers = (webhookRegistry[webhookFields.topic] || []).filter(
+    (handler) => handler.deliveryMethod === deliveryMethod,
+  );
+
+  if (handlers.length === 0) {
+    await log.debug(`No ${label} handlers found`, webhookFields);
+
+    return {
+      statusCode: StatusCode.NotFound,
+      errorMessage: `No ${label} webhooks registered for topic ${webhookFields.topic}`,
+    };
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch (error) {
+    await log.debug(`Webhook body is not valid JSON: ${error}`, webhookFields);
+
+    return {
+      statusCode: StatusCode.BadRequest,
+      errorMessage: 'Webhook body is not valid JSON',
+    };
+  }
 
   const response: HandlerCallResult = {statusCode: StatusCode.Ok};
 
-  let found = false;
   for (const handler of handlers) {
-    if (handler.deliveryMethod !== DeliveryMethod.Http) {
-      continue;
-    }
     if (!handler.callback) {
       response.statusCode = StatusCode.InternalServerError;
-      response.errorMessage =
-        "Cannot call webhooks.process with a webhook handler that doesn't have a callback";
+      response.errorMessage = `Cannot call ${DELIVERY_METHOD_CALLERS[deliveryMethod]} with a webhook handler that doesn't have a callback`;
 
       throw new ShopifyErrors.MissingWebhookCallbackError({
         message: response.errorMessage,
@@ -131,19 +253,17 @@ async function callWebhookHandlers(
       });
     }
 
-    found = true;
-
-    await log.debug('Found HTTP handler, triggering it', loggingContext);
+    await log.debug(`Found ${label} handler, triggering it`, webhookFields);
 
     try {
       await handler.callback(
-        webhookCheck.topic,
-        webhookCheck.domain,
+        webhookFields.topic,
+        webhookFields.domain,
         rawBody,
-        webhookCheck.webhookId,
-        webhookCheck.apiVersion,
-        ...(webhookCheck?.subTopic ? webhookCheck.subTopic : ''),
-        context,
+        webhookFields.webhookId,
+        webhookFields.apiVersion,
+        webhookFields.subTopic,
+        {...context, payload},
       );
     } catch (error) {
       response.statusCode = StatusCode.InternalServerError;
@@ -151,13 +271,6 @@ async function callWebhookHandlers(
     }
   }
 
-  if (!found) {
-    await log.debug('No HTTP handlers found', loggingContext);
-
-    response.statusCode = StatusCode.NotFound;
-    response.errorMessage = `No HTTP webhooks registered for topic ${webhookCheck.topic}`;
-  }
-
   return response;
 }
 
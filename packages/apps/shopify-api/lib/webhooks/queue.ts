@@ -0,0 +1,78 @@
+import {WebhookJob, WebhookJobData, WebhookJobQueue} from './types';
+
+/**
+ * Keeps webhook jobs in memory. Jobs are lost when the app restarts, so this queue is mostly useful for development
+ * and testing.
+ */
+export class MemoryWebhookJobQueue implements WebhookJobQueue {
+  private jobs = new Map<string, WebhookJob>();
+  private deadLetters = new Map<string, WebhookJob>();
+  private nextId = 1;
+
+  public async enqueue(data: WebhookJobData): Promise<WebhookJob> {
+    const job: WebhookJob = {
+      ...data,
+      id: String(this.nextId++),
+      attempts: 0,
+      runAt: Date.now(),
+    };
+
+    this.jobs.set(job.id, job);
+    return {...job};
+  }
+
+  public async dequeue(lockUntil: number): Promise<WebhookJob | undefined> {
+    const now = Date.now();
+
+    let nextJob: WebhookJob | undefined;
+    for (const job of this.jobs.values()) {
+      if (job.runAt <= now && (!nextJob || job.runAt < nextJob.runAt)) {
+        nextJob = job;
+      }
+    }
+
+    if (!nextJob) {
+      return undefined;
+    }
+
+    nextJob.attempts += 1;
+    nextJob.runAt = lockUntil;
+    return {...nextJob};
+  }
+
+  public async complete(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  public async retry(
+    jobId: string,
+    runAt: number,
+    error: string,
+  ): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      job.runAt = runAt;
+      job.lastError = error;
+    }
+  }
+
+  public async deadLetter(jobId: string, error: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      this.jobs.delete(jobId);
+      this.deadLetters.set(jobId, {...job, lastError: error});
+    }
+  }
+
+  public async listDeadLetters(): Promise<WebhookJob[]> {
+    return [...this.deadLetters.values()].map((job) => ({...job}));
+  }
+
+  public async replay(jobId: string): Promise<void> {
+    const job = this.deadLetters.get(jobId);
+    if (job) {
+      this.deadLetters.delete(jobId);
+      this.jobs.set(jobId, {...job, attempts: 0, runAt: Date.now()});
+    }
+  }
+}
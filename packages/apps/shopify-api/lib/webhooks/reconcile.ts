@@ -0,0 +1,147 @@
+import {graphqlClientClass} from '../clients/admin';
+import {InvalidDeliveryMethodError} from '../error';
+import {logger} from '../logger';
+import {privacyTopics} from '../types';
+import {ConfigInterface} from '../base-types';
+
+import {addHostToCallbackUrl, getHandlers} from './registry';
+import {categorizeHandlers, getExistingHandlers, runMutation} from './register';
+import {
+  DeliveryMethod,
+  ReconcileParams,
+  ReconcileReturn,
+  WebhookHandler,
+  WebhookOperation,
+  WebhookReconcileEntry,
+  WebhookRegistry,
+} from './types';
+
+interface PlannedMutation {
+  entry: WebhookReconcileEntry;
+  handler: WebhookHandler;
+  operation: WebhookOperation;
+}
+
+export function reconcile(
+  config: ConfigInterface,
+  webhookRegistry: WebhookRegistry,
+) {
+  return async function reconcile({
+    session,
+    dryRun = false,
+  }: ReconcileParams): Promise<ReconcileReturn> {
+    const log = logger(config);
+    log.info('Reconciling webhooks', {shop: session.shop, dryRun});
+
+    const existingHandlers = await getExistingHandlers(config, session);
+    const plan: PlannedMutation[] = [];
+
+    for (const topic in webhookRegistry) {
+      if (!Object.prototype.hasOwnProperty.call(webhookRegistry, topic)) {
+        continue;
+      }
+
+      if (!privacyTopics.includes(topic)) {
+        const {toCreate, toUpdate, toDelete} = categorizeHandlers(
+          config,
+          existingHandlers[topic] || [],
+          getHandlers(webhookRegistry)(topic),
+        );
+
+        plan.push(
+          ...planMutations(config, topic, toCreate, WebhookOperation.Create),
+          ...planMutations(config, topic, toUpdate, WebhookOperation.Update),
+          ...planMutations(config, topic, toDelete, WebhookOperation.Delete),
+        );
+      }
+
+      delete existingHandlers[topic];
+    }
+
+    // Whatever is left exists on the shop but is no longer in the registry
+    for (const topic in existingHandlers) {
+      if (!Object.prototype.hasOwnProperty.call(existingHandlers, topic)) {
+        continue;
+      }
+
+      plan.push(
+        ...planMutations(
+          config,
+          topic,
+          existingHandlers[topic],
+          WebhookOperation.Delete,
+        ),
+      );
+    }
+
+    log.debug(
+      `Planned ${plan.length} webhook subscription change(s)${
+        dryRun ? ', skipping them due to dry run' : ''
+      }`,
+      {shop: session.shop},
+    );
+
+    if (!dryRun) {
+      const GraphqlClient = graphqlClientClass({config});
+      const client = new GraphqlClient({session});
+
+      for (const {entry, handler, operation} of plan) {
+        entry.result = await runMutation({
+          config,
+          client,
+          topic: entry.topic,
+          handler,
+          operation,
+        });
+      }
+    }
+
+    const entriesFor = (operation: WebhookOperation) =>
+      plan
+        .filter((mutation) => mutation.operation === operation)
+        .map(({entry}) => entry);
+
+    return {
+      dryRun,
+      create: entriesFor(WebhookOperation.Create),
+      update: entriesFor(WebhookOperation.Update),
+      delete: entriesFor(WebhookOperation.Delete),
+    };
+  };
+}
+
+function planMutations(
+  config: ConfigInterface,
+  topic: string,
+  handlers: WebhookHandler[],
+  operation: WebhookOperation,
+): PlannedMutation[] {
+  return handlers.map((handler) => ({
+    entry: {
+      topic,
+      deliveryMethod: handler.deliveryMethod,
+      id: operation === WebhookOperation.Create ? undefined : handler.id,
+      address: handlerAddress(config, handler),
+    },
+    handler,
+    operation,
+  }));
+}
+
+function handlerAddress(
+  config: ConfigInterface,
+  handler: WebhookHandler,
+): string {
+  switch (handler.deliveryMethod) {
+    case DeliveryMethod.Http:
+      return addHostToCallbackUrl(config, handler.callbackUrl);
+    case DeliveryMethod.EventBridge:
+      return handler.arn;
+    case DeliveryMethod.PubSub:
+      return `pubsub://${handler.pubSubProject}:${handler.pubSubTopic}`;
+    default:
+      throw new InvalidDeliveryMethodError(
+        `Unrecognized delivery method '${(handler as any).deliveryMethod}'`,
+      );
+  }
+}
@@ -35,7 +35,7 @@ interface RunMutationsParams {
   operation: WebhookOperation;
 }
 
-interface RunMutationParams {
+export interface RunMutationParams {
   config: ConfigInterface;
   client: GraphqlClient;
   topic: string;
@@ -111,7 +111,7 @@ export function register(
   };
 }
 
-async function getExistingHandlers(
+export async function getExistingHandlers(
   config: ConfigInterface,
   session: Session,
 ): Promise<WebhookRegistry> {
@@ -231,7 +231,7 @@ async function registerTopic({
 
 type HandlersByKey = Record<string, WebhookHandler>;
 
-function categorizeHandlers(
+export function categorizeHandlers(
   config: ConfigInterface,
   existingHandlers: WebhookHandler[],
   handlers: WebhookHandler[],
@@ -327,7 +327,7 @@ async function runMutations({
   return registerResults;
 }
 
-async function runMutation({
+export async function runMutation({
   config,
   client,
   topic,
@@ -1,6 +1,7 @@
 import {InvalidDeliveryMethodError} from '../error';
 import {ConfigInterface} from '../base-types';
 import {logger} from '../logger';
+import {ApiVersion, LATEST_API_VERSION} from '../types';
 
 import {
   AddHandlersParams,
@@ -21,7 +22,9 @@ export function addHandlers(
   config: ConfigInterface,
   webhookRegistry: WebhookRegistry,
 ) {
-  return function addHandlers(handlersToAdd: AddHandlersParams) {
+  return function addHandlers<
+    Version extends ApiVersion = typeof LATEST_API_VERSION,
+  >(handlersToAdd: AddHandlersParams<Version>) {
     for (const [topic, handlers] of Object.entries(handlersToAdd)) {
       const topicKey = topicForStorage(topic);
 
@@ -29,7 +32,7 @@ export function addHandlers(
         for (const handler of handlers) {
           mergeOrAddHandler(config, webhookRegistry, topicKey, handler);
         }
-      } else {
+      } else if (handlers) {
         mergeOrAddHandler(config, webhookRegistry, topicKey, handlers);
       }
     }
@@ -1,6 +1,9 @@
 import {ValidationErrorReason, ValidationInvalid} from '../utils/types';
 import {AdapterArgs} from '../../runtime/types';
 import {Session} from '../session/session';
+import {ApiVersion, LATEST_API_VERSION} from '../types';
+
+import {WebhookPayload, WebhookTopicKey} from './payloads';
 
 export enum DeliveryMethod {
   Http = 'http',
@@ -8,16 +11,28 @@ export enum DeliveryMethod {
   PubSub = 'pubsub',
 }
 
-export type WebhookHandlerFunction = (
+export type WebhookHandlerFunction<Payload = any> = (
   topic: string,
   shop_domain: string,
   body: string,
   webhookId: string,
   apiVersion?: string,
   subTopic?: string,
-  context?: any,
+  context?: WebhookHandlerContext<Payload>,
 ) => Promise<void>;
 
+/**
+ * The context handlers are called with: the `context` value passed to `process`, along with the parsed body of the
+ * webhook.
+ */
+export interface WebhookHandlerContext<Payload = any> {
+  /**
+   * The parsed body of the webhook.
+   */
+  payload: Payload;
+  [key: string]: any;
+}
+
 interface BaseWebhookHandler {
   id?: string;
   includeFields?: string[];
@@ -31,26 +46,37 @@ export interface HttpWebhookHandler extends BaseWebhookHandler {
   callbackUrl: string;
 }
 
-export interface HttpWebhookHandlerWithCallback extends HttpWebhookHandler {
-  callback: WebhookHandlerFunction;
+export interface HttpWebhookHandlerWithCallback<Payload = any>
+  extends HttpWebhookHandler {
+  callback: WebhookHandlerFunction<Payload>;
 }
 
-export interface EventBridgeWebhookHandler extends BaseWebhookHandler {
+export interface EventBridgeWebhookHandler<Payload = any>
+  extends BaseWebhookHandler {
   deliveryMethod: DeliveryMethod.EventBridge;
   arn: string;
+  /**
+   * Called by `webhooks.consumeEventBridge` for events delivered to this handler's event bus.
+   */
+  callback?: WebhookHandlerFunction<Payload>;
 }
 
-export interface PubSubWebhookHandler extends BaseWebhookHandler {
+export interface PubSubWebhookHandler<Payload = any>
+  extends BaseWebhookHandler {
   deliveryMethod: DeliveryMethod.PubSub;
   pubSubProject: string;
   pubSubTopic: string;
+  /**
+   * Called by `webhooks.consumePubSub` for messages delivered to this handler's topic.
+   */
+  callback?: WebhookHandlerFunction<Payload>;
 }
 
-export type WebhookHandler =
+export type WebhookHandler<Payload = any> =
   | HttpWebhookHandler
-  | HttpWebhookHandlerWithCallback
-  | EventBridgeWebhookHandler
-  | PubSubWebhookHandler;
+  | HttpWebhookHandlerWithCallback<Payload>
+  | EventBridgeWebhookHandler<Payload>
+  | PubSubWebhookHandler<Payload>;
 
 // See https://shopify.dev/docs/api/admin-graphql/latest/enums/webhooksubscriptiontopic for available topics
 export type WebhookRegistry<Handler extends WebhookHandler = WebhookHandler> =
@@ -78,6 +104,37 @@ export interface RegisterResult {
 
 export type RegisterReturn = Record<string, RegisterResult[]>;
 
+export interface ReconcileParams extends RegisterParams {
+  /**
+   * Whether to only return the plan, without changing the shop's subscriptions. Defaults to `false`.
+   */
+  dryRun?: boolean;
+}
+
+export interface WebhookReconcileEntry {
+  topic: string;
+  deliveryMethod: DeliveryMethod;
+  /**
+   * The id of the subscription in Shopify, for updates and deletes.
+   */
+  id?: string;
+  /**
+   * The URL, ARN or Pub/Sub address the subscription delivers to.
+   */
+  address: string;
+  /**
+   * The result of the mutation, if the plan was applied.
+   */
+  result?: RegisterResult;
+}
+
+export interface ReconcileReturn {
+  dryRun: boolean;
+  create: WebhookReconcileEntry[];
+  update: WebhookReconcileEntry[];
+  delete: WebhookReconcileEntry[];
+}
+
 interface WebhookHttpEndpoint {
   __typename: 'WebhookHttpEndpoint';
   callbackUrl: string;
@@ -120,17 +177,215 @@ export interface WebhookCheckResponse<T = WebhookCheckResponseNode> {
   };
 }
 
-export type AddHandlersParams = Record<
-  string,
-  WebhookHandler | WebhookHandler[]
->;
+// Handlers for known topics receive a payload typed for the API version, while any other topic is still accepted
+export type AddHandlersParams<
+  Version extends ApiVersion = typeof LATEST_API_VERSION,
+> = {
+  [Topic in WebhookTopicKey<Version> | (string & NonNullable<unknown>)]?:
+    | WebhookHandler<WebhookPayload<Topic, Version>>
+    | WebhookHandler<WebhookPayload<Topic, Version>>[];
+};
 
-export interface WebhookProcessParams extends AdapterArgs {
+/**
+ * Keeps track of the webhooks that were already processed, so that repeated deliveries of the same webhook are only
+ * handled once.
+ */
+export interface WebhookIdempotencyStore {
+  /**
+   * Records that the webhook with the given id is being processed.
+   *
+   * Returns `false` if the webhook was already recorded, and the record hasn't expired.
+   */
+  claim(webhookId: string): Promise<boolean>;
+  /**
+   * Removes the record for the webhook with the given id, so it can be processed again.
+   */
+  release(webhookId: string): Promise<void>;
+}
+
+export interface WebhookJobData {
+  topic: string;
+  domain: string;
+  body: string;
+  webhookId: string;
+  apiVersion: string;
+  subTopic?: string;
+}
+
+export interface WebhookJob extends WebhookJobData {
+  id: string;
+  /**
+   * How many times a worker tried to run this job.
+   */
+  attempts: number;
+  /**
+   * When the job should run next, in milliseconds since the epoch.
+   */
+  runAt: number;
+  /**
+   * The error from the last failed attempt, if any.
+   */
+  lastError?: string;
+}
+
+/**
+ * Persists webhooks so they can be processed after Shopify receives a response.
+ */
+export interface WebhookJobQueue {
+  /**
+   * Adds a webhook to the queue, to run as soon as possible.
+   */
+  enqueue(data: WebhookJobData): Promise<WebhookJob>;
+  /**
+   * Returns the next job that is due, if any, and hides it from other workers until `lockUntil`.
+   *
+   * If the worker stops before completing the job, it will be picked up again after that time.
+   */
+  dequeue(lockUntil: number): Promise<WebhookJob | undefined>;
+  /**
+   * Removes a job that succeeded from the queue.
+   */
+  complete(jobId: string): Promise<void>;
+  /**
+   * Schedules a job that failed to run again at `runAt`.
+   */
+  retry(jobId: string, runAt: number, error: string): Promise<void>;
+  /**
+   * Moves a job that won't be retried to the dead-letter list.
+   */
+  deadLetter(jobId: string, error: string): Promise<void>;
+  /**
+   * Lists the jobs in the dead-letter list.
+   */
+  listDeadLetters(): Promise<WebhookJob[]>;
+  /**
+   * Moves a job from the dead-letter list back into the queue, resetting its attempts.
+   */
+  replay(jobId: string): Promise<void>;
+}
+
+export interface WebhookWorkerParams {
+  jobQueue: WebhookJobQueue;
+  /**
+   * How many times to try running a job before moving it to the dead-letter list. Defaults to 5.
+   */
+  maxAttempts?: number;
+  /**
+   * How long to wait before the first retry, in milliseconds. The delay doubles for each retry. Defaults to 1 second.
+   */
+  retryDelay?: number;
+  /**
+   * The maximum delay between retries, in milliseconds. Defaults to 1 hour.
+   */
+  maxRetryDelay?: number;
+  /**
+   * How often to check for new jobs when the worker is started, in milliseconds. Defaults to 1 second.
+   */
+  pollInterval?: number;
+  /**
+   * How long a job can run before other workers can pick it up, in milliseconds. Defaults to 5 minutes.
+   */
+  lockTimeout?: number;
+  context?: any;
+}
+
+export interface WebhookWorker {
+  /**
+   * Runs all the jobs that are currently due, and resolves once they're done.
+   */
+  runPendingJobs(): Promise<void>;
+  /**
+   * Starts checking for jobs periodically.
+   */
+  start(): void;
+  /**
+   * Stops checking for jobs, and resolves once the current jobs are done.
+   */
+  stop(): Promise<void>;
+}
+
+export interface WebhookValidateParams extends AdapterArgs {
   rawBody: string;
   context?: any;
 }
 
-export interface WebhookValidateParams extends WebhookProcessParams {}
+export interface WebhookProcessParams extends WebhookValidateParams {
+  /**
+   * If provided, webhooks that were already processed will be acknowledged without calling the handlers again.
+   */
+  idempotencyStore?: WebhookIdempotencyStore;
+  /**
+   * If provided, webhooks will be added to the queue and acknowledged immediately, and a worker will call the
+   * handlers later.
+   */
+  jobQueue?: WebhookJobQueue;
+}
+
+/**
+ * The body Google Cloud Pub/Sub sends to push subscription endpoints.
+ *
+ * {@link https://cloud.google.com/pubsub/docs/push#receive_push}
+ */
+export interface PubSubPushEnvelope {
+  message: {
+    /**
+     * The base64-encoded webhook payload.
+     */
+    data: string;
+    /**
+     * The webhook headers, such as `X-Shopify-Topic`.
+     */
+    attributes: Record<string, string>;
+    messageId?: string;
+    publishTime?: string;
+  };
+  subscription?: string;
+}
+
+/**
+ * The event Amazon EventBridge passes to rules targeting a partner event bus.
+ *
+ * {@link https://shopify.dev/docs/apps/build/webhooks/subscribe/get-started?deliveryMethod=eventBridge}
+ */
+export interface EventBridgeWebhookEvent {
+  id?: string;
+  'detail-type'?: string;
+  source?: string;
+  time?: string;
+  detail: {
+    /**
+     * The webhook headers, such as `X-Shopify-Topic`.
+     */
+    metadata: Record<string, string>;
+    payload: any;
+  };
+}
+
+interface WebhookConsumeParams {
+  context?: any;
+  /**
+   * If provided, messages for webhooks that were already processed will be skipped.
+   */
+  idempotencyStore?: WebhookIdempotencyStore;
+}
+
+export interface WebhookConsumePubSubParams extends WebhookConsumeParams {
+  /**
+   * The push request body, either as a string or already parsed.
+   */
+  envelope: PubSubPushEnvelope | string;
+}
+
+export interface WebhookConsumeEventBridgeParams extends WebhookConsumeParams {
+  event: EventBridgeWebhookEvent;
+}
+
+export interface WebhookConsumeResult extends Omit<WebhookFields, 'hmac'> {
+  /**
+   * Whether the handlers were skipped because the webhook was already processed.
+   */
+  duplicate: boolean;
+}
 
 export const WebhookValidationErrorReason = {
   ...ValidationErrorReason,
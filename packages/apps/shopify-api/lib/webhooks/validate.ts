@@ -61,8 +61,10 @@ export function validateFactory(config: ConfigInterface) {
   };
 }
 
-function checkWebhookHeaders(
+// Messages from Pub/Sub and EventBridge are authenticated by the cloud provider, so they don't need an HMAC
+export function checkWebhookHeaders(
   headers: Headers,
+  {requireHmac = true}: {requireHmac?: boolean} = {},
 ): WebhookValidationMissingHeaders | WebhookValidationValid {
   const missingHeaders: ShopifyHeader[] = [];
   const entries = Object.entries(HANDLER_PROPERTIES) as [
@@ -73,7 +75,10 @@ function checkWebhookHeaders(
     const headerValue = getHeader(headers, headerName);
     if (headerValue) {
       acc[property] = headerValue;
-    } else if (!(property in OPTIONAL_HANDLER_PROPERTIES)) {
+    } else if (
+      !(property in OPTIONAL_HANDLER_PROPERTIES) &&
+      (requireHmac || property !== 'hmac')
+    ) {
       missingHeaders.push(headerName);
     }
 
@@ -0,0 +1,131 @@
+import {StatusCode} from '@shopify/network';
+
+import {ConfigInterface} from '../base-types';
+import {logger} from '../logger';
+
+import {callWebhookHandlers} from './process';
+import {
+  HttpWebhookHandlerWithCallback,
+  WebhookJob,
+  WebhookRegistry,
+  WebhookWorker,
+  WebhookWorkerParams,
+} from './types';
+
+export function createWorker(
+  config: ConfigInterface,
+  webhookRegistry: WebhookRegistry<HttpWebhookHandlerWithCallback>,
+) {
+  return function createWorker({
+    jobQueue,
+    maxAttempts = 5,
+    retryDelay = 1000,
+    maxRetryDelay = 60 * 60 * 1000,
+    pollInterval = 1000,
+    lockTimeout = 5 * 60 * 1000,
+    context,
+  }: WebhookWorkerParams): WebhookWorker {
+    const log = logger(config);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let running: Promise<void> | undefined;
+    let started = false;
+
+    async function runJob(job: WebhookJob) {
+      const {
+        id: jobId,
+        body,
+        attempts: _attempts,
+        runAt: _runAt,
+        lastError: _lastError,
+        ...webhookFields
+      } = job;
+
+      await log.debug('Running webhook job', {jobId, ...webhookFields});
+
+      // Retries call every handler again, so handlers are called at least once per webhook
+      let errorMessage: string | undefined;
+      try {
+        const result = await callWebhookHandlers(
+          config,
+          webhookRegistry,
+          webhookFields,
+          body,
+          context,
+        );
+
+        if (result.statusCode !== StatusCode.Ok) {
+          errorMessage = result.errorMessage ?? 'Unknown error';
+        }
+      } catch (error) {
+        errorMessage = error.message;
+      }
+
+      if (!errorMessage) {
+        await jobQueue.complete(jobId);
+        return;
+      }
+
+      if (job.attempts >= maxAttempts) {
+        await log.error(
+          `Webhook job failed ${job.attempts} times, moving it to the dead-letter list: ${errorMessage}`,
+          {jobId, topic: job.topic, domain: job.domain},
+        );
+
+        await jobQueue.deadLetter(jobId, errorMessage);
+        return;
+      }
+
+      const delay = Math.min(
+        retryDelay * 2 ** (job.attempts - 1),
+        maxRetryDelay,
+      );
+
+      await log.info(
+        `Webhook job failed, retrying in ${delay}ms: ${errorMessage}`,
+        {jobId, topic: job.topic, domain: job.domain},
+      );
+
+      await jobQueue.retry(jobId, Date.now() + delay, errorMessage);
+    }
+
+    async function runPendingJobs() {
+      let job = await jobQueue.dequeue(Date.now() + lockTimeout);
+
+      while (job) {
+        await runJob(job);
+        job = await jobQueue.dequeue(Date.now() + lockTimeout);
+      }
+    }
+
+    function poll() {
+      running = runPendingJobs()
+        .catch((error) =>
+          log.error(`Failed to run webhook jobs: ${error.message}`),
+        )
+        .finally(() => {
+          running = undefined;
+          if (started) {
+            timer = setTimeout(poll, pollInterval);
+          }
+        });
+    }
+
+    return {
+      runPendingJobs,
+      start() {
+        if (started) {
+          return;
+        }
+
+        started = true;
+        poll();
+      },
+      async stop() {
+        started = false;
+        clearTimeout(timer);
+        await running;
+      },
+    };
+  };
+}
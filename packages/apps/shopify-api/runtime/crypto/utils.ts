@@ -3,15 +3,21 @@ import {ShopifyError} from '../../lib/error';
 import {crypto} from './crypto';
 import {HashFormat} from './types';
 
+/**
+ * Returns the Web Crypto API for the current runtime. Node's crypto module exposes it as `webcrypto`.
+ */
+export function getCryptoLib(): Crypto {
+  const runtimeCrypto: Crypto & {webcrypto?: Crypto} = crypto;
+
+  return runtimeCrypto.webcrypto ?? runtimeCrypto;
+}
+
 export async function createSHA256HMAC(
   secret: string,
   payload: string,
   returnFormat: HashFormat = HashFormat.Base64,
 ): Promise<string> {
-  const cryptoLib =
-    typeof (crypto as any)?.webcrypto === 'undefined'
-      ? crypto
-      : (crypto as any).webcrypto;
+  const cryptoLib = getCryptoLib();
 
   const enc = new TextEncoder();
   const key = await cryptoLib.subtle.importKey(
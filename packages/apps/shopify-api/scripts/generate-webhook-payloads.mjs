@@ -0,0 +1,274 @@
+// Generates the webhook payload types in lib/webhooks/payloads for every API version in rest/admin.
+//
+// Webhooks for REST resources are delivered with the same JSON representation as the resource in the subscription's
+// API version, so the payload types are built from the fields of the generated REST resource classes.
+//
+// Usage: pnpm generate:webhook-payloads
+
+import {existsSync, readdirSync, readFileSync, writeFileSync} from 'fs';
+import {dirname, join} from 'path';
+import {fileURLToPath} from 'url';
+
+import ts from 'typescript';
+import prettier from 'prettier';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const RESOURCES_DIR = join(ROOT, 'rest', 'admin');
+const OUTPUT_DIR = join(ROOT, 'lib', 'webhooks', 'payloads');
+
+const HEADER = `// This file is generated by scripts/generate-webhook-payloads.mjs from the REST resources, do not edit it by hand.
+`;
+
+// The REST resource whose representation is delivered for each webhook topic
+const RESOURCE_TOPICS = {
+  checkout: ['CHECKOUTS_CREATE', 'CHECKOUTS_UPDATE'],
+  collection: ['COLLECTIONS_CREATE', 'COLLECTIONS_UPDATE'],
+  collection_listing: ['COLLECTION_LISTINGS_ADD', 'COLLECTION_LISTINGS_UPDATE'],
+  customer: [
+    'CUSTOMERS_CREATE',
+    'CUSTOMERS_UPDATE',
+    'CUSTOMERS_ENABLE',
+    'CUSTOMERS_DISABLE',
+  ],
+  dispute: ['DISPUTES_CREATE', 'DISPUTES_UPDATE'],
+  draft_order: ['DRAFT_ORDERS_CREATE', 'DRAFT_ORDERS_UPDATE'],
+  fulfillment: ['FULFILLMENTS_CREATE', 'FULFILLMENTS_UPDATE'],
+  fulfillment_event: ['FULFILLMENT_EVENTS_CREATE'],
+  inventory_item: ['INVENTORY_ITEMS_CREATE', 'INVENTORY_ITEMS_UPDATE'],
+  inventory_level: ['INVENTORY_LEVELS_CONNECT', 'INVENTORY_LEVELS_UPDATE'],
+  location: ['LOCATIONS_CREATE', 'LOCATIONS_UPDATE'],
+  order: [
+    'ORDERS_CREATE',
+    'ORDERS_UPDATED',
+    'ORDERS_PAID',
+    'ORDERS_CANCELLED',
+    'ORDERS_FULFILLED',
+    'ORDERS_PARTIALLY_FULFILLED',
+  ],
+  product: ['PRODUCTS_CREATE', 'PRODUCTS_UPDATE'],
+  product_listing: ['PRODUCT_LISTINGS_ADD', 'PRODUCT_LISTINGS_UPDATE'],
+  refund: ['REFUNDS_CREATE'],
+  shop: ['APP_UNINSTALLED', 'SHOP_UPDATE'],
+  tender_transaction: ['TENDER_TRANSACTIONS_CREATE'],
+  theme: ['THEMES_CREATE', 'THEMES_UPDATE', 'THEMES_PUBLISH'],
+  transaction: ['ORDER_TRANSACTIONS_CREATE'],
+};
+
+// Topics for deleted resources only receive the id of the resource
+const DELETE_TOPICS = {
+  checkout: 'CHECKOUTS_DELETE',
+  collection: 'COLLECTIONS_DELETE',
+  customer: 'CUSTOMERS_DELETE',
+  draft_order: 'DRAFT_ORDERS_DELETE',
+  inventory_item: 'INVENTORY_ITEMS_DELETE',
+  location: 'LOCATIONS_DELETE',
+  order: 'ORDERS_DELETE',
+  product: 'PRODUCTS_DELETE',
+  theme: 'THEMES_DELETE',
+};
+
+/**
+ * Reads the instance fields of a REST resource class, and the other resources they refer to.
+ */
+function readResource(versionDir, resourceFile) {
+  const path = join(versionDir, `${resourceFile}.ts`);
+  const source = ts.createSourceFile(
+    path,
+    readFileSync(path, 'utf8'),
+    ts.ScriptTarget.Latest,
+  );
+
+  const imports = new Map();
+  let resourceClass;
+  for (const statement of source.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      statement.moduleSpecifier.text.startsWith('./')
+    ) {
+      for (const element of statement.importClause.namedBindings.elements) {
+        imports.set(
+          element.name.text,
+          statement.moduleSpecifier.text.slice('./'.length),
+        );
+      }
+    } else if (ts.isClassDeclaration(statement)) {
+      resourceClass = statement;
+    }
+  }
+
+  const references = new Set();
+  const fields = resourceClass.members
+    .filter(
+      (member) =>
+        ts.isPropertyDeclaration(member) &&
+        !member.modifiers?.some(
+          (modifier) => modifier.kind === ts.SyntaxKind.StaticKeyword,
+        ),
+    )
+    .map((member) => ({
+      name: member.name.text,
+      type: fieldType(member.type, source, imports, references),
+    }));
+
+  return {name: resourceClass.name.text, fields, references};
+}
+
+/**
+ * Fields that hold other resources are typed as `Resource | {[key: string]: any}` so they can be set from plain
+ * objects, but payloads always contain the plain representation, so we only keep the resource.
+ */
+function fieldType(typeNode, source, imports, references) {
+  const members = ts.isUnionTypeNode(typeNode) ? typeNode.types : [typeNode];
+
+  const resourceMembers = members.filter((member) => {
+    const element = ts.isArrayTypeNode(member) ? member.elementType : member;
+    return (
+      ts.isTypeReferenceNode(element) && imports.has(element.typeName.text)
+    );
+  });
+
+  for (const member of resourceMembers) {
+    const element = ts.isArrayTypeNode(member) ? member.elementType : member;
+    references.add(imports.get(element.typeName.text));
+  }
+
+  const keptMembers =
+    resourceMembers.length > 0
+      ? members.filter(
+          (member) =>
+            resourceMembers.includes(member) ||
+            member.kind === ts.SyntaxKind.LiteralType,
+        )
+      : members;
+
+  return keptMembers.map((member) => member.getText(source)).join(' | ');
+}
+
+function generateVersion(version) {
+  const versionDir = join(RESOURCES_DIR, version);
+  const resources = new Map();
+
+  const addResource = (resourceFile) => {
+    if (resources.has(resourceFile)) {
+      return;
+    }
+
+    const resource = readResource(versionDir, resourceFile);
+    resources.set(resourceFile, resource);
+    resource.references.forEach(addResource);
+  };
+
+  const topics = [];
+  for (const [resourceFile, resourceTopics] of Object.entries(
+    RESOURCE_TOPICS,
+  )) {
+    if (!existsSync(join(versionDir, `${resourceFile}.ts`))) {
+      continue;
+    }
+
+    addResource(resourceFile);
+    const {name} = resources.get(resourceFile);
+    topics.push(...resourceTopics.map((topic) => [topic, name]));
+
+    if (DELETE_TOPICS[resourceFile]) {
+      topics.push([DELETE_TOPICS[resourceFile], 'WebhookDeletedResource']);
+    }
+  }
+
+  const interfaces = [...resources.values()]
+    .sort((resource1, resource2) => compare(resource1.name, resource2.name))
+    .map(
+      ({name, fields}) =>
+        `interface ${name} {\n${fields
+          .map((field) => `  ${field.name}: ${field.type};`)
+          .join('\n')}\n}`,
+    );
+
+  topics.sort(([topic1], [topic2]) => compare(topic1, topic2));
+
+  return `${HEADER}
+import {CommonWebhookPayloads, WebhookDeletedResource} from './common';
+
+${interfaces.join('\n\n')}
+
+/**
+ * Maps webhook topics to the type of their payload in API version ${version}.
+ */
+export interface WebhookPayloads extends CommonWebhookPayloads {
+${topics.map(([topic, type]) => `  ${topic}: ${type};`).join('\n')}
+}
+`;
+}
+
+function generateVersionMap(versions) {
+  const identifier = (version) => `WebhookPayloads${version.replace('-', '_')}`;
+
+  const apiVersions = readApiVersions();
+  const latestVersion = versions[versions.length - 1];
+
+  return `${HEADER}
+import {ApiVersion} from '../../types';
+
+${versions
+  .map(
+    (version) =>
+      `import {WebhookPayloads as ${identifier(version)}} from './${version}';`,
+  )
+  .join('\n')}
+
+/**
+ * Maps API versions to their webhook payload types. Versions without REST resources use the latest payload types.
+ */
+export interface WebhookPayloadsByVersion {
+${apiVersions
+  .map(
+    ([name, version]) =>
+      `  [ApiVersion.${name}]: ${identifier(
+        versions.includes(version) ? version : latestVersion,
+      )};`,
+  )
+  .join('\n')}
+}
+`;
+}
+
+function readApiVersions() {
+  const source = readFileSync(join(ROOT, 'lib', 'types.ts'), 'utf8');
+  const apiVersionEnum = source.match(/export enum ApiVersion \{([^}]*)\}/)[1];
+
+  return [...apiVersionEnum.matchAll(/(\w+) = '([^']+)'/g)].map((match) => [
+    match[1],
+    match[2],
+  ]);
+}
+
+function compare(value1, value2) {
+  if (value1 === value2) {
+    return 0;
+  }
+
+  return value1 < value2 ? -1 : 1;
+}
+
+async function writeFormatted(path, content) {
+  const options = await prettier.resolveConfig(path);
+  writeFileSync(
+    path,
+    await prettier.format(content, {...options, parser: 'typescript'}),
+  );
+}
+
+const versions = readdirSync(RESOURCES_DIR)
+  .filter((entry) => /^\d{4}-\d{2}$/.test(entry))
+  .sort();
+
+for (const version of versions) {
+  await writeFormatted(
+    join(OUTPUT_DIR, `${version}.ts`),
+    generateVersion(version),
+  );
+}
+await writeFormatted(
+  join(OUTPUT_DIR, 'versions.ts'),
+  generateVersionMap(versions),
+);
@@ -0,0 +1,148 @@
+import {
+  shopifyApi,
+  GraphqlQueryError,
+  HttpResponseError,
+  HttpThrottlingError,
+} from '../../lib';
+import {testConfig} from '../../lib/__tests__/test-config';
+import {
+  MockAdminApi,
+  rateLimitedResponse,
+  serverErrorResponse,
+  throttledGraphqlResponse,
+  unauthorizedResponse,
+} from '../mock-admin-api';
+import {setUpValidSession} from '../setup-valid-session';
+import {TEST_SHOP} from '../const';
+
+const SHOP_QUERY = `query shopName { shop { name } }`;
+
+describe('MockAdminApi', () => {
+  let adminApi: MockAdminApi;
+
+  beforeEach(() => {
+    adminApi = new MockAdminApi().install();
+  });
+
+  afterEach(() => {
+    adminApi.uninstall();
+  });
+
+  function getClients() {
+    const shopify = shopifyApi(testConfig());
+    const session = setUpValidSession({shop: TEST_SHOP});
+
+    return {
+      graphql: new shopify.clients.Graphql({session}),
+      rest: new shopify.clients.Rest({session}),
+    };
+  }
+
+  it('responds to GraphQL operations and records them', async () => {
+    adminApi.graphql('shopName', {body: {data: {shop: {name: 'Test'}}}});
+    const {graphql} = getClients();
+
+    const response = await graphql.request(SHOP_QUERY, {
+      variables: {first: 1},
+    });
+
+    expect(response.data).toEqual({shop: {name: 'Test'}});
+    expect(adminApi.operations()).toEqual(['shopName']);
+    expect(adminApi.requests[0]).toMatchObject({
+      shop: TEST_SHOP,
+      method: 'POST',
+      path: 'graphql.json',
+      variables: {first: 1},
+    });
+    expect(() => adminApi.assertOperationSent('shopName')).not.toThrow();
+    expect(() => adminApi.assertOperationSent('other')).toThrow(
+      'Expected GraphQL operation other to be sent, but got [shopName]',
+    );
+  });
+
+  it('finds the name of operations with leading comments', async () => {
+    adminApi.graphql('FetchAccessScopes', {
+      body: {data: {currentAppInstallation: {accessScopes: []}}},
+    });
+    const {graphql} = getClients();
+
+    const response = await graphql.request(`#graphql
+      # Loads the scopes granted to the app
+      query FetchAccessScopes {
+        currentAppInstallation {
+          accessScopes {
+            handle
+          }
+        }
+      }`);
+
+    expect(response.data).toEqual({
+      currentAppInstallation: {accessScopes: []},
+    });
+    expect(adminApi.operations()).toEqual(['FetchAccessScopes']);
+  });
+
+  it('builds responses from the request', async () => {
+    adminApi.rest('get', /^products\/\d+\.json$/, (request) => ({
+      body: {product: {id: Number(request.path.match(/\d+/)![0])}},
+    }));
+    const {rest} = getClients();
+
+    const response = await rest.get({path: 'products/123'});
+
+    expect(response.body).toEqual({product: {id: 123}});
+  });
+
+  it('uses fixtures with a limit first', async () => {
+    adminApi
+      .graphql('shopName', {body: {data: {shop: {name: 'Test'}}}})
+      .graphql('shopName', unauthorizedResponse(), {times: 1});
+    const {graphql} = getClients();
+
+    await expect(graphql.request(SHOP_QUERY)).rejects.toThrow(
+      HttpResponseError,
+    );
+    await expect(graphql.request(SHOP_QUERY)).resolves.toMatchObject({
+      data: {shop: {name: 'Test'}},
+    });
+    expect(() => adminApi.assertAllFixturesUsed()).not.toThrow();
+  });
+
+  it('reports fixtures that were not used', () => {
+    adminApi.graphql('shopName', serverErrorResponse(), {times: 2});
+
+    expect(() => adminApi.assertAllFixturesUsed()).toThrow(
+      'Some fixtures were not used: [GraphQL operation shopName]',
+    );
+  });
+
+  it('simulates REST rate limits', async () => {
+    adminApi.any(rateLimitedResponse(2));
+    const {rest} = getClients();
+
+    const error = await rest.get({path: 'shop'}).catch((err) => err);
+
+    expect(error).toBeInstanceOf(HttpThrottlingError);
+    expect(error.response.retryAfter).toBe(2);
+  });
+
+  it('simulates GraphQL throttling', async () => {
+    adminApi.graphql('shopName', throttledGraphqlResponse());
+    const {graphql} = getClients();
+
+    const error = await graphql.request(SHOP_QUERY).catch((err) => err);
+
+    expect(error).toBeInstanceOf(GraphqlQueryError);
+    expect(error.body.errors.graphQLErrors).toEqual([
+      {message: 'Throttled', extensions: {code: 'THROTTLED'}},
+    ]);
+  });
+
+  it('fails requests without a fixture', async () => {
+    const {graphql} = getClients();
+
+    await expect(graphql.request(SHOP_QUERY)).rejects.toThrow(
+      'Missing MockAdminApi fixture for GraphQL operation shopName',
+    );
+  });
+});
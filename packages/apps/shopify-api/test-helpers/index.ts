@@ -5,6 +5,19 @@ export {setUpValidRequest} from './setup-valid-request';
 export {getJwt} from './get-jwt';
 export {getHmac} from './get-hmac';
 export {getShopValue} from './get-shop-value';
+export {
+  MockAdminApi,
+  unauthorizedResponse,
+  rateLimitedResponse,
+  throttledGraphqlResponse,
+  serverErrorResponse,
+} from './mock-admin-api';
+export type {
+  MockAdminApiResponse,
+  MockAdminApiRequest,
+  MockAdminApiFixture,
+  MockAdminApiFixtureOptions,
+} from './mock-admin-api';
 export {
   API_KEY,
   API_SECRET_KEY,
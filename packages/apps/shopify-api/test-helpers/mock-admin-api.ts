@@ -0,0 +1,338 @@
+import {createMockFetch} from '../adapters/mock/adapter';
+import {
+  abstractFetch,
+  AbstractFetchFunc,
+  Headers,
+  NormalizedRequest,
+  NormalizedResponse,
+  setAbstractFetchFunc,
+} from '../runtime/http';
+
+const ADMIN_API_PATH = /^\/admin\/api\/([^/]+)\/(.+)$/;
+// Skips any whitespace and comments before the operation, like the `#graphql` tag used for syntax highlighting
+const OPERATION_NAME =
+  /^(?:\s|#[^\n]*)*(?:query|mutation|subscription)\s+(\w+)/;
+
+export interface MockAdminApiResponse {
+  /**
+   * Defaults to 200.
+   */
+  status?: number;
+  headers?: Record<string, string>;
+  /**
+   * The response body. Anything other than a string is sent as JSON.
+   */
+  body?: any;
+}
+
+export interface MockAdminApiRequest {
+  shop: string;
+  method: string;
+  url: string;
+  headers: Headers;
+  apiVersion: string;
+  /**
+   * The path after the API version, such as `graphql.json` or `products/123.json`.
+   */
+  path: string;
+  /**
+   * The parsed JSON body, if any.
+   */
+  body?: any;
+  /**
+   * For GraphQL requests, the name of the operation that was sent.
+   */
+  operationName?: string;
+  /**
+   * For GraphQL requests, the variables that were sent.
+   */
+  variables?: Record<string, any>;
+}
+
+export type MockAdminApiFixture =
+  | MockAdminApiResponse
+  | ((
+      request: MockAdminApiRequest,
+    ) => MockAdminApiResponse | Promise<MockAdminApiResponse>);
+
+export interface MockAdminApiFixtureOptions {
+  /**
+   * How many requests this fixture responds to. Fixtures with a limit are used before fixtures without one, so you can
+   * make the first few requests fail.
+   */
+  times?: number;
+}
+
+interface RegisteredFixture {
+  matches: (request: MockAdminApiRequest) => boolean;
+  fixture: MockAdminApiFixture;
+  remaining?: number;
+  description: string;
+}
+
+/**
+ * A fake Admin API that responds to GraphQL and REST requests with programmed fixtures, so tests can run without
+ * network access.
+ *
+ * Requests that don't match any fixture fail with an error, so unexpected calls are easy to find.
+ */
+export class MockAdminApi {
+  /**
+   * Every request the mock received, in order.
+   */
+  public readonly requests: MockAdminApiRequest[] = [];
+
+  /**
+   * The fetch function that routes requests to the fixtures.
+   */
+  public readonly fetch: AbstractFetchFunc;
+
+  private fixtures: RegisteredFixture[] = [];
+  private previousFetch: AbstractFetchFunc | undefined;
+
+  constructor() {
+    this.fetch = createMockFetch((request) => this.respond(request));
+  }
+
+  /**
+   * Responds to GraphQL operations with the given name.
+   */
+  public graphql(
+    operationName: string,
+    fixture: MockAdminApiFixture,
+    options: MockAdminApiFixtureOptions = {},
+  ): this {
+    return this.addFixture(
+      (request) =>
+        request.path === 'graphql.json' &&
+        request.operationName === operationName,
+      fixture,
+      options,
+      `GraphQL operation ${operationName}`,
+    );
+  }
+
+  /**
+   * Responds to REST requests for the given method and path, such as `products/123.json`.
+   */
+  public rest(
+    method: string,
+    path: string | RegExp,
+    fixture: MockAdminApiFixture,
+    options: MockAdminApiFixtureOptions = {},
+  ): this {
+    const normalizedPath =
+      typeof path === 'string' ? path.replace(/^\//, '') : path;
+
+    return this.addFixture(
+      (request) =>
+        request.method === method.toUpperCase() &&
+        (typeof normalizedPath === 'string'
+          ? request.path === normalizedPath
+          : normalizedPath.test(request.path)),
+      fixture,
+      options,
+      `${method.toUpperCase()} ${path}`,
+    );
+  }
+
+  /**
+   * Responds to any Admin API request, for example to simulate an outage with a `times` limit.
+   */
+  public any(
+    fixture: MockAdminApiFixture,
+    options: MockAdminApiFixtureOptions = {},
+  ): this {
+    return this.addFixture(() => true, fixture, options, 'any request');
+  }
+
+  /**
+   * Returns the names of the GraphQL operations that were sent, in order.
+   */
+  public operations(): string[] {
+    return this.requests
+      .map((request) => request.operationName)
+      .filter((name): name is string => Boolean(name));
+  }
+
+  /**
+   * Throws if no GraphQL operation with the given name was sent.
+   */
+  public assertOperationSent(operationName: string): void {
+    if (!this.operations().includes(operationName)) {
+      throw new Error(
+        `Expected GraphQL operation ${operationName} to be sent, but got [${this.operations().join(', ')}]`,
+      );
+    }
+  }
+
+  /**
+   * Throws if any fixture with a `times` limit wasn't used up.
+   */
+  public assertAllFixturesUsed(): void {
+    const unused = this.fixtures.filter((fixture) => fixture.remaining);
+    if (unused.length) {
+      throw new Error(
+        `Some fixtures were not used: [${unused.map((fixture) => fixture.description).join(', ')}]`,
+      );
+    }
+  }
+
+  /**
+   * Makes the Shopify API library send every request to this mock.
+   */
+  public install(): this {
+    this.previousFetch ??= abstractFetch;
+    setAbstractFetchFunc(this.fetch);
+    return this;
+  }
+
+  /**
+   * Restores the fetch function that was set before `install` was called.
+   */
+  public uninstall(): void {
+    if (this.previousFetch) {
+      setAbstractFetchFunc(this.previousFetch);
+      this.previousFetch = undefined;
+    }
+  }
+
+  /**
+   * Removes all fixtures and recorded requests.
+   */
+  public reset(): void {
+    this.fixtures = [];
+    this.requests.length = 0;
+  }
+
+  private addFixture(
+    matches: RegisteredFixture['matches'],
+    fixture: MockAdminApiFixture,
+    {times}: MockAdminApiFixtureOptions,
+    description: string,
+  ): this {
+    this.fixtures.push({matches, fixture, remaining: times, description});
+    return this;
+  }
+
+  private async respond(
+    normalizedRequest: NormalizedRequest,
+  ): Promise<NormalizedResponse | Error> {
+    const request = parseRequest(normalizedRequest);
+    if (!request) {
+      return new Error(
+        `MockAdminApi received a request that isn't for the Admin API: ${normalizedRequest.method} ${normalizedRequest.url}`,
+      );
+    }
+
+    this.requests.push(request);
+
+    const candidates = [
+      ...this.fixtures.filter((fixture) => fixture.remaining !== undefined),
+      ...this.fixtures.filter((fixture) => fixture.remaining === undefined),
+    ];
+    const match = candidates.find(
+      (fixture) => fixture.remaining !== 0 && fixture.matches(request),
+    );
+
+    if (!match) {
+      return new Error(
+        `Missing MockAdminApi fixture for ${request.operationName ? `GraphQL operation ${request.operationName}` : `${request.method} ${request.path}`}`,
+      );
+    }
+
+    if (match.remaining !== undefined) {
+      match.remaining -= 1;
+    }
+
+    const response =
+      typeof match.fixture === 'function'
+        ? await match.fixture(request)
+        : match.fixture;
+
+    return {
+      statusCode: response.status ?? 200,
+      statusText: '',
+      headers: {'Content-Type': 'application/json', ...response.headers},
+      body:
+        typeof response.body === 'string'
+          ? response.body
+          : JSON.stringify(response.body ?? {}),
+    };
+  }
+}
+
+/**
+ * A `401 Unauthorized` response, like the ones returned for revoked access tokens.
+ */
+export function unauthorizedResponse(): MockAdminApiResponse {
+  return {
+    status: 401,
+    body: {errors: '[API] Invalid API key or access token'},
+  };
+}
+
+/**
+ * A `429 Too Many Requests` response, like the ones returned when the REST API rate limit is exceeded.
+ */
+export function rateLimitedResponse(retryAfter = 1): MockAdminApiResponse {
+  return {
+    status: 429,
+    headers: {'Retry-After': retryAfter.toString()},
+    body: {errors: 'Exceeded 2 calls per second for api client.'},
+  };
+}
+
+/**
+ * A response for GraphQL queries that exceed the available query cost.
+ */
+export function throttledGraphqlResponse(): MockAdminApiResponse {
+  return {
+    body: {
+      errors: [{message: 'Throttled', extensions: {code: 'THROTTLED'}}],
+    },
+  };
+}
+
+/**
+ * A server error response.
+ */
+export function serverErrorResponse(status = 500): MockAdminApiResponse {
+  return {status, body: {errors: 'Internal Server Error'}};
+}
+
+function parseRequest(
+  request: NormalizedRequest,
+): MockAdminApiRequest | undefined {
+  const url = new URL(request.url);
+  const pathMatch = url.pathname.match(ADMIN_API_PATH);
+  if (!pathMatch) {
+    return undefined;
+  }
+
+  let body: any;
+  try {
+    body = request.body ? JSON.parse(request.body) : undefined;
+  } catch {
+    body = request.body;
+  }
+
+  const [, apiVersion, path] = pathMatch;
+  const parsed: MockAdminApiRequest = {
+    shop: url.host,
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    apiVersion,
+    path,
+    body,
+  };
+
+  if (path === 'graphql.json' && typeof body?.query === 'string') {
+    parsed.operationName =
+      body.operationName ?? body.query.match(OPERATION_NAME)?.[1];
+    parsed.variables = body.variables;
+  }
+
+  return parsed;
+}
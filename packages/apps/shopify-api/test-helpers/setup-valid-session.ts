@@ -15,8 +15,9 @@ type DeepPartial<T> = T extends object
  * @returns {Session} The fake Session created.
  */
 export function setUpValidSession(
-  sessionParams: DeepPartial<SessionParams> &
-    Pick<SessionParams, 'shop' | 'expires'>,
+  // Custom properties are taken as they are, since their recursive JSON type can't be made deeply partial
+  sessionParams: DeepPartial<Omit<SessionParams, 'customProperties'>> &
+    Pick<SessionParams, 'shop' | 'expires' | 'customProperties'>,
 ): Session {
   const overrides: Partial<SessionParams> = {...sessionParams} as SessionParams;
   const shop = sessionParams.shop;
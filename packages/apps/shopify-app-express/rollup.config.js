@@ -2,6 +2,9 @@ import {getConfig} from '../../../config/rollup/rollup-utils';
 
 import * as pkg from './package.json';
 
-const config = getConfig({pkg});
+const config = getConfig({
+  pkg,
+  input: ['src/index.ts', 'src/test-helpers/index.ts'],
+});
 
 export default config;
@@ -4,7 +4,7 @@ import {
   ShopifyError,
 } from '@shopify/shopify-api';
 
-import {shopifyApp} from '../index';
+import {shopifyApp, ShopifyAppError} from '../index';
 import {SHOPIFY_EXPRESS_LIBRARY_VERSION} from '../version';
 
 import {testConfig} from './test-helper';
@@ -35,6 +35,33 @@ describe('shopifyApp', () => {
     expect(() => shopifyApp({} as any)).toThrowError(ShopifyError);
   });
 
+  it('enables token exchange for managed installation', () => {
+    const shopify = shopifyApp({...testConfig, managedInstall: true});
+
+    expect(shopify.config.managedInstall).toBe(true);
+    expect(shopify.config.useTokenExchange).toBe(true);
+  });
+
+  it('fails if managed installation is enabled for a non-embedded app', () => {
+    expect(() =>
+      shopifyApp({
+        ...testConfig,
+        api: {...testConfig.api, isEmbeddedApp: false},
+        managedInstall: true,
+      }),
+    ).toThrowError(ShopifyAppError);
+  });
+
+  it('fails if token exchange is enabled for a non-embedded app', () => {
+    expect(() =>
+      shopifyApp({
+        ...testConfig,
+        api: {...testConfig.api, isEmbeddedApp: false},
+        useTokenExchange: true,
+      }),
+    ).toThrowError(ShopifyAppError);
+  });
+
   it('properly defaults missing configs based on env vars', () => {
     /* eslint-disable no-process-env */
     process.env.SHOPIFY_API_KEY = 'envKey';
@@ -125,6 +125,7 @@ describe('OAuth integration tests', () => {
         TEST_WEBHOOK_ID,
         LATEST_API_VERSION,
         undefined,
+        {payload: JSON.parse(body)},
       );
 
       await installedRequest(app, config, installedMock);
@@ -150,6 +150,7 @@ describe('webhook integration', () => {
               TEST_WEBHOOK_ID,
               LATEST_API_VERSION,
               undefined,
+              {payload: {}},
             );
           }
         });
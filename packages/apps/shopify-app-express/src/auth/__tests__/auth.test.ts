@@ -162,6 +162,106 @@ describe('auth', () => {
       });
     });
 
+    describe('with an afterAuth hook', () => {
+      let afterAuthMock: jest.Mock;
+      beforeEach(() => {
+        afterAuthMock = jest.fn();
+        shopify.config.hooks.afterAuth = afterAuthMock;
+        jest.spyOn(shopify.api.webhooks, 'register').mockResolvedValueOnce({});
+      });
+
+      it('runs the hook for a new installation', async () => {
+        callbackMock.mockResolvedValueOnce({session, headers: undefined});
+
+        await request(app)
+          .get(`/auth/callback?host=${BASE64_HOST}`)
+          .expect(302);
+
+        expect(afterAuthMock).toHaveBeenCalledWith({
+          session,
+          admin: {
+            graphql: expect.any(shopify.api.clients.Graphql),
+            rest: expect.any(shopify.api.clients.Rest),
+          },
+          isNewInstall: true,
+        });
+      });
+
+      it('runs the hook when the shop was already installed', async () => {
+        await shopify.config.sessionStorage.storeSession(
+          new Session({...session, id: `offline_${TEST_SHOP}`}),
+        );
+        callbackMock.mockResolvedValueOnce({session, headers: undefined});
+
+        await request(app)
+          .get(`/auth/callback?host=${BASE64_HOST}`)
+          .expect(302);
+
+        expect(afterAuthMock).toHaveBeenCalledWith(
+          expect.objectContaining({session, isNewInstall: false}),
+        );
+      });
+
+      it('fails if the hook throws an error', async () => {
+        callbackMock.mockResolvedValueOnce({session, headers: undefined});
+        afterAuthMock.mockRejectedValueOnce(new Error('Test hook error'));
+
+        const response = await request(app)
+          .get(`/auth/callback?host=${BASE64_HOST}`)
+          .expect(500);
+
+        expect(response.text).toBe('Test hook error');
+        expect(shopify.api.config.logger.log as jest.Mock).toHaveBeenCalledWith(
+          LogSeverity.Error,
+          expect.stringContaining('Test hook error'),
+        );
+      });
+    });
+
+    describe('with billing plans', () => {
+      beforeEach(() => {
+        shopify.config.auth.checkBillingPlans = ['My plan'];
+        callbackMock.mockResolvedValueOnce({session, headers: undefined});
+        jest.spyOn(shopify.api.webhooks, 'register').mockResolvedValueOnce({});
+      });
+
+      it('redirects to the billing confirmation page if there is no payment', async () => {
+        jest
+          .spyOn(shopify.api.billing, 'check')
+          .mockResolvedValueOnce({hasActivePayment: false} as any);
+        const requestMock = jest
+          .spyOn(shopify.api.billing, 'request')
+          .mockResolvedValueOnce('https://billing-confirmation-url');
+
+        const response = await request(app)
+          .get(`/auth/callback?host=${BASE64_HOST}`)
+          .expect(302);
+
+        expect(response.header.location).toBe(
+          'https://billing-confirmation-url',
+        );
+        expect(requestMock).toHaveBeenCalledWith(
+          expect.objectContaining({session, plan: 'My plan'}),
+        );
+      });
+
+      it('redirects to app if there is a payment', async () => {
+        const checkMock = jest
+          .spyOn(shopify.api.billing, 'check')
+          .mockResolvedValueOnce({hasActivePayment: true} as any);
+
+        const response = await request(app)
+          .get(`/auth/callback?host=${BASE64_HOST}`)
+          .expect(302);
+
+        const url = new URL(response.header.location);
+        expect(url.host).toBe(SHOPIFY_HOST);
+        expect(checkMock).toHaveBeenCalledWith(
+          expect.objectContaining({session, plans: ['My plan']}),
+        );
+      });
+    });
+
     describe('fails', () => {
       it('restarts OAuth if CookieNotFound', async () => {
         const errorMessage = 'Test no cookie found';
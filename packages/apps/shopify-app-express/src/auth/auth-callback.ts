@@ -10,8 +10,10 @@ import {
 
 import {AppConfigInterface} from '../config-types';
 import {redirectToAuth} from '../redirect-to-auth';
+import {requestPaymentIfRequired} from '../middlewares/ensure-billing';
 
 import {AuthCallbackParams} from './types';
+import {isNewInstall, triggerAfterAuthHook} from './trigger-after-auth-hook';
 
 export async function authCallback({
   req,
@@ -30,6 +32,12 @@ export async function authCallback({
       isOnline: callbackResponse.session.isOnline,
     });
 
+    const newInstall = await isNewInstall(
+      api,
+      config,
+      callbackResponse.session,
+    );
+
     await config.sessionStorage.storeSession(callbackResponse.session);
 
     // If this is an offline OAuth process, register webhooks
@@ -37,6 +45,13 @@ export async function authCallback({
       await registerWebhooks(config, api, callbackResponse.session);
     }
 
+    await triggerAfterAuthHook(
+      api,
+      config,
+      callbackResponse.session,
+      newInstall,
+    );
+
     // If we're completing an offline OAuth process, immediately kick off the online one
     if (config.useOnlineTokens && !callbackResponse.session.isOnline) {
       config.logger.debug(
@@ -48,6 +63,18 @@ export async function authCallback({
       return false;
     }
 
+    if (
+      await requestPaymentIfRequired({
+        req,
+        res,
+        api,
+        config,
+        session: callbackResponse.session,
+      })
+    ) {
+      return false;
+    }
+
     res.locals.shopify = {
       ...res.locals.shopify,
       session: callbackResponse.session,
@@ -68,7 +95,7 @@ export async function authCallback({
   return false;
 }
 
-async function registerWebhooks(
+export async function registerWebhooks(
   config: AppConfigInterface,
   api: Shopify,
   session: Session,
@@ -0,0 +1,43 @@
+import {Session, Shopify} from '@shopify/shopify-api';
+
+import {AppConfigInterface} from '../config-types';
+import {createAdminApiContext} from '../clients';
+
+export async function triggerAfterAuthHook(
+  api: Shopify,
+  config: AppConfigInterface,
+  session: Session,
+  isNewInstall: boolean,
+) {
+  if (!config.hooks.afterAuth) {
+    return;
+  }
+
+  config.logger.info('Running afterAuth hook', {
+    shop: session.shop,
+    isOnline: session.isOnline,
+    isNewInstall,
+  });
+
+  await config.hooks.afterAuth({
+    session,
+    admin: createAdminApiContext(api, session),
+    isNewInstall,
+  });
+}
+
+export async function isNewInstall(
+  api: Shopify,
+  config: AppConfigInterface,
+  session: Session,
+): Promise<boolean> {
+  if (session.isOnline) {
+    return false;
+  }
+
+  const existingSession = await config.sessionStorage.loadSession(
+    api.session.getOfflineId(session.shop),
+  );
+
+  return !existingSession?.accessToken;
+}
@@ -0,0 +1,73 @@
+import {
+  GraphqlClient,
+  HttpResponseError,
+  RequestParams,
+  RestRequestReturn,
+  Session,
+  Shopify,
+} from '@shopify/shopify-api';
+
+import {AppConfigInterface} from '../config-types';
+import {clearAccessTokenCheck} from '../middlewares/has-valid-access-token';
+
+import {AdminApiContext} from './types';
+
+export function createAdminApiContext(
+  api: Shopify,
+  session: Session,
+): AdminApiContext {
+  return {
+    graphql: new api.clients.Graphql({session}),
+    rest: new api.clients.Rest({session}),
+  };
+}
+
+/**
+ * Replaces the Admin API clients, including the one used by REST resources, so that a 401 response clears the access
+ * token check for the session, however the client was created.
+ */
+export function installAdminClients(
+  api: Shopify,
+  config: AppConfigInterface,
+): void {
+  class Graphql extends api.clients.Graphql {
+    // Declared as a property so the override keeps the generic signature of the base method
+    public request: GraphqlClient['request'] = async (...args) => {
+      try {
+        return await super.request(...args);
+      } catch (error) {
+        await handleClientError(config, this.session, error);
+        throw error;
+      }
+    };
+  }
+
+  class Rest extends api.clients.Rest {
+    protected async request<T>(
+      params: RequestParams,
+    ): Promise<RestRequestReturn<T>> {
+      try {
+        return await super.request<T>(params);
+      } catch (error) {
+        await handleClientError(config, this.session, error);
+        throw error;
+      }
+    }
+  }
+
+  api.clients.Graphql = Graphql;
+  api.clients.Rest = Rest;
+  for (const resource of Object.values(api.rest)) {
+    resource.Client = Rest;
+  }
+}
+
+async function handleClientError(
+  config: AppConfigInterface,
+  session: Session,
+  error: Error,
+) {
+  if (error instanceof HttpResponseError && error.response.code === 401) {
+    await clearAccessTokenCheck(config, session.id);
+  }
+}
@@ -0,0 +1,4 @@
+import {createAdminApiContext, installAdminClients} from './admin';
+import {createStorefrontApiContext} from './storefront';
+
+export {createAdminApiContext, createStorefrontApiContext, installAdminClients};
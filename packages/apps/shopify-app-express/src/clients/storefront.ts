@@ -0,0 +1,12 @@
+import {Session, Shopify} from '@shopify/shopify-api';
+
+import {StorefrontApiContext} from './types';
+
+export function createStorefrontApiContext(
+  api: Shopify,
+  session: Session,
+): StorefrontApiContext {
+  return {
+    graphql: new api.clients.Storefront({session}),
+  };
+}
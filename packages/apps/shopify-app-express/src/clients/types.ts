@@ -0,0 +1,19 @@
+import {GraphqlClient, Shopify} from '@shopify/shopify-api';
+
+export interface AdminApiContext {
+  /**
+   * A client for the Admin GraphQL API, authenticated with the current session.
+   */
+  graphql: GraphqlClient;
+  /**
+   * A client for the Admin REST API, authenticated with the current session.
+   */
+  rest: InstanceType<Shopify['clients']['Rest']>;
+}
+
+export interface StorefrontApiContext {
+  /**
+   * A client for the Storefront GraphQL API, authenticated with the current session.
+   */
+  graphql: InstanceType<Shopify['clients']['Storefront']>;
+}
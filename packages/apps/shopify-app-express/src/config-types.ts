@@ -1,20 +1,32 @@
 import {
   ConfigParams as ApiConfigParams,
+  Session,
   Shopify,
   ShopifyRestResources,
+  WebhookIdempotencyStore,
+  WebhookCustomersDataRequest,
+  WebhookCustomersRedact,
+  WebhookJobQueue,
+  WebhookShopRedact,
 } from '@shopify/shopify-api';
 import {SessionStorage} from '@shopify/shopify-app-session-storage';
 
+import {AdminApiContext} from './clients/types';
+
 export interface AppConfigParams<
   Resources extends ShopifyRestResources = ShopifyRestResources,
   Storage extends SessionStorage = SessionStorage,
 > {
   auth: AuthConfigInterface;
   webhooks: WebhooksConfigInterface;
+  hooks?: HooksConfigInterface;
   api?: Partial<ApiConfigParams<Resources>>;
   useOnlineTokens?: boolean;
+  useTokenExchange?: boolean;
+  managedInstall?: boolean;
   exitIframePath?: string;
   sessionStorage?: Storage;
+  accessTokenCheck?: AccessTokenCheckConfigInterface;
 }
 
 export interface AppConfigInterface<
@@ -22,17 +34,82 @@ export interface AppConfigInterface<
   Storage extends SessionStorage = SessionStorage,
 > extends Omit<AppConfigParams<Resources, Storage>, 'api'> {
   logger: Shopify['logger'];
+  hooks: HooksConfigInterface;
   useOnlineTokens: boolean;
+  useTokenExchange: boolean;
+  managedInstall: boolean;
   exitIframePath: string;
   sessionStorage: Storage;
+  accessTokenCheck: Required<AccessTokenCheckConfigInterface>;
 }
 
 export interface AuthConfigInterface {
   path: string;
   callbackPath: string;
   checkBillingPlans?: string[];
+  billingIsTest?: boolean;
+}
+
+export interface AccessTokenCheckConfigInterface {
+  /**
+   * Whether to confirm that stored access tokens work with an Admin API request before using them. Defaults to `true`.
+   */
+  enabled?: boolean;
+  /**
+   * How long a successful check is trusted for, in seconds. Checks are stored with the session in the session storage.
+   * Defaults to `0`, which checks on every request.
+   */
+  ttl?: number;
 }
 
 export interface WebhooksConfigInterface {
   path: string;
+  idempotencyStore?: WebhookIdempotencyStore;
+  jobQueue?: WebhookJobQueue;
+  privacy?: PrivacyWebhooksConfigInterface;
+}
+
+export interface PrivacyWebhookContext<Payload> {
+  topic: string;
+  shop: string;
+  webhookId: string;
+  apiVersion: string;
+  payload: Payload;
+}
+
+export type PrivacyWebhookCallback<Payload> = (
+  context: PrivacyWebhookContext<Payload>,
+) => void | Promise<void>;
+
+export interface PrivacyWebhookAuditEntry {
+  topic: string;
+  shop: string;
+  webhookId: string;
+  apiVersion: string;
+  receivedAt: string;
+  status: 'completed' | 'failed';
+  error?: string;
+}
+
+export interface PrivacyWebhooksConfigInterface {
+  /**
+   * Called once for every privacy webhook, after all of its callbacks run. Defaults to logging the entry.
+   */
+  auditLog?: (entry: PrivacyWebhookAuditEntry) => void | Promise<void>;
+  customersDataRequest?: PrivacyWebhookCallback<WebhookCustomersDataRequest>[];
+  customersRedact?: PrivacyWebhookCallback<WebhookCustomersRedact>[];
+  /**
+   * Called before the shop's sessions are deleted.
+   */
+  shopRedact?: PrivacyWebhookCallback<WebhookShopRedact>[];
+}
+
+export interface AfterAuthOptions {
+  session: Session;
+  admin: AdminApiContext;
+  isNewInstall: boolean;
+}
+
+export interface HooksConfigInterface {
+  afterAuth?: (options: AfterAuthOptions) => void | Promise<void>;
 }
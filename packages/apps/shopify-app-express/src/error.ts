@@ -6,3 +6,13 @@ export class ShopifyAppError extends Error {
 }
 
 export class SessionStorageError extends ShopifyAppError {}
+export class SessionNotFoundError extends ShopifyAppError {}
+
+export class RevokeScopesError extends ShopifyAppError {
+  readonly userErrors: {field: string; message: string}[];
+
+  constructor(message: string, userErrors: {field: string; message: string}[]) {
+    super(message);
+    this.userErrors = userErrors;
+  }
+}
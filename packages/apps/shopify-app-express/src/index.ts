@@ -17,6 +17,12 @@ import {
   cspHeaders,
   ensureInstalled,
   redirectToShopifyOrAppRoot,
+  ensureBilling,
+  authenticateAppProxy,
+  authenticateFlow,
+  authenticateWebhook,
+  authenticateFulfillmentService,
+  authenticatePublic,
 } from './middlewares/index';
 import {AuthMiddleware} from './auth/types';
 import {auth} from './auth/index';
@@ -27,15 +33,38 @@ import {
   CspHeadersMiddleware,
   EnsureInstalledMiddleware,
   RedirectToShopifyOrAppRootMiddleware,
+  EnsureBillingMiddleware,
+  AuthenticateAppProxyMiddleware,
+  AuthenticateFlowMiddleware,
+  AuthenticateWebhookMiddleware,
+  AuthenticateFulfillmentServiceMiddleware,
+  AuthenticatePublicMiddlewares,
 } from './middlewares/types';
+import {Unauthenticated} from './unauthenticated/types';
+import {unauthenticated} from './unauthenticated/index';
 import {redirectOutOfApp} from './redirect-out-of-app';
+import {ShopifyAppError} from './error';
+import {installAdminClients} from './clients';
 import {RedirectOutOfAppFunction} from './types';
 
 export * from './types';
 export * from './auth/types';
 export * from './middlewares/types';
 export * from './webhooks/types';
-export type {AppConfigParams} from './config-types';
+export * from './clients/types';
+export * from './unauthenticated/types';
+export * from './scopes/types';
+export * from './error';
+export type {
+  AppConfigParams,
+  AccessTokenCheckConfigInterface,
+  AfterAuthOptions,
+  HooksConfigInterface,
+  PrivacyWebhooksConfigInterface,
+  PrivacyWebhookContext,
+  PrivacyWebhookCallback,
+  PrivacyWebhookAuditEntry,
+} from './config-types';
 
 type DefaultedConfigs<Params extends Partial<ApiConfigParams> | undefined> =
   ApiConfigParams & Params;
@@ -60,7 +89,14 @@ export interface ShopifyApp<Params extends AppConfigParams = AppConfigParams> {
   cspHeaders: CspHeadersMiddleware;
   ensureInstalledOnShop: EnsureInstalledMiddleware;
   redirectToShopifyOrAppRoot: RedirectToShopifyOrAppRootMiddleware;
+  ensureBilling: EnsureBillingMiddleware;
+  authenticateAppProxy: AuthenticateAppProxyMiddleware;
+  authenticateFlow: AuthenticateFlowMiddleware;
+  authenticateWebhook: AuthenticateWebhookMiddleware;
+  authenticateFulfillmentService: AuthenticateFulfillmentServiceMiddleware;
+  authenticatePublic: AuthenticatePublicMiddlewares;
   redirectOutOfApp: RedirectOutOfAppFunction;
+  unauthenticated: Unauthenticated;
 }
 
 export function shopifyApp<Params extends AppConfigParams>(
@@ -70,6 +106,7 @@ export function shopifyApp<Params extends AppConfigParams>(
 
   const api = shopifyApi(apiConfigWithDefaults(apiConfig ?? {}));
   const validatedConfig = validateAppConfig(appConfig, api);
+  installAdminClients(api, validatedConfig);
 
   return {
     config: validatedConfig,
@@ -92,7 +129,17 @@ export function shopifyApp<Params extends AppConfigParams>(
       api,
       config: validatedConfig,
     }),
+    ensureBilling: ensureBilling({api, config: validatedConfig}),
+    authenticateAppProxy: authenticateAppProxy({api, config: validatedConfig}),
+    authenticateFlow: authenticateFlow({api, config: validatedConfig}),
+    authenticateWebhook: authenticateWebhook({api, config: validatedConfig}),
+    authenticateFulfillmentService: authenticateFulfillmentService({
+      api,
+      config: validatedConfig,
+    }),
+    authenticatePublic: authenticatePublic({api, config: validatedConfig}),
     redirectOutOfApp: redirectOutOfApp({api, config: validatedConfig}),
+    unauthenticated: unauthenticated({api, config: validatedConfig}),
   };
 }
 
@@ -129,6 +176,18 @@ function validateAppConfig<Params extends Omit<AppConfigParams, 'api'>>(
 ): ConfigInterfaceFromParams<Params> {
   const {sessionStorage, ...configWithoutSessionStorage} = config;
 
+  if (config.managedInstall && !api.config.isEmbeddedApp) {
+    throw new ShopifyAppError(
+      'Shopify managed installation is only supported for embedded apps',
+    );
+  }
+
+  if (config.useTokenExchange && !api.config.isEmbeddedApp) {
+    throw new ShopifyAppError(
+      'Token exchange is only supported for embedded apps',
+    );
+  }
+
   return {
     // We override the API package's logger to add the right package context by default (and make the call simpler)
     logger: overrideLoggerPackage(api.logger),
@@ -137,8 +196,16 @@ function validateAppConfig<Params extends Omit<AppConfigParams, 'api'>>(
     sessionStorage: (sessionStorage ??
       new MemorySessionStorage()) as ConfigInterfaceFromParams<Params>['sessionStorage'],
     ...configWithoutSessionStorage,
+    // Managed installation relies on token exchange to get access tokens
+    useTokenExchange: Boolean(config.useTokenExchange || config.managedInstall),
+    managedInstall: config.managedInstall ?? false,
     auth: config.auth,
     webhooks: config.webhooks,
+    hooks: config.hooks ?? {},
+    accessTokenCheck: {
+      enabled: config.accessTokenCheck?.enabled ?? true,
+      ttl: config.accessTokenCheck?.ttl ?? 0,
+    },
   };
 }
 
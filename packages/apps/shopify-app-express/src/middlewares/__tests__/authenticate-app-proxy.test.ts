@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+
+import request from 'supertest';
+import express, {Express} from 'express';
+import {Session} from '@shopify/shopify-api';
+
+import {shopify, TEST_SHOP} from '../../__tests__/test-helper';
+
+describe('authenticateAppProxy', () => {
+  let app: Express;
+  let session: Session;
+
+  beforeEach(() => {
+    session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      scope: 'testScope',
+      accessToken: 'totally-real-access-token',
+    });
+
+    app = express();
+    app.use('/proxy/*', shopify.authenticateAppProxy());
+    app.get('/proxy/context', async (_req, res) => {
+      const {shop, loggedInCustomerId, admin, storefront} = res.locals.shopify;
+
+      res.json({
+        shop,
+        loggedInCustomerId: loggedInCustomerId ?? null,
+        session: res.locals.shopify.session?.id ?? null,
+        hasAdmin: Boolean(admin),
+        hasStorefront: Boolean(storefront),
+      });
+    });
+    app.get('/proxy/liquid', async (_req, res) => {
+      res.locals.shopify.liquid('Hello {{ shop.name }}', {layout: false});
+    });
+  });
+
+  it('populates the context for installed shops', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+
+    const response = await request(app)
+      .get(`/proxy/context?${signedQuery({logged_in_customer_id: '1234'})}`)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      shop: TEST_SHOP,
+      loggedInCustomerId: '1234',
+      session: session.id,
+      hasAdmin: true,
+      hasStorefront: true,
+    });
+  });
+
+  it('proceeds without clients if the shop has no session', async () => {
+    const response = await request(app)
+      .get(`/proxy/context?${signedQuery({logged_in_customer_id: ''})}`)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      shop: TEST_SHOP,
+      loggedInCustomerId: null,
+      session: null,
+      hasAdmin: false,
+      hasStorefront: false,
+    });
+  });
+
+  it('validates signatures with repeated params', async () => {
+    const query = signedQuery({extra: ['1', '2']});
+
+    await request(app).get(`/proxy/context?${query}`).expect(200);
+  });
+
+  it('returns a 400 if the signature is invalid', async () => {
+    const query = signedQuery();
+    query.set('signature', 'not-a-valid-signature');
+
+    await request(app).get(`/proxy/context?${query}`).expect(400);
+  });
+
+  it('returns a 400 if the signature is missing', async () => {
+    const query = signedQuery();
+    query.delete('signature');
+
+    await request(app).get(`/proxy/context?${query}`).expect(400);
+  });
+
+  it('renders liquid responses', async () => {
+    const response = await request(app)
+      .get(`/proxy/liquid?${signedQuery()}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch('application/liquid');
+    expect(response.text).toBe('{% layout none %} Hello {{ shop.name }}');
+  });
+});
+
+function signedQuery(
+  extraParams: Record<string, string | string[]> = {},
+): URLSearchParams {
+  const params: Record<string, string | string[]> = {
+    shop: TEST_SHOP,
+    path_prefix: '/apps/proxy',
+    timestamp: Math.trunc(Date.now() / 1000).toString(),
+    ...extraParams,
+  };
+
+  const message = Object.entries(params)
+    .sort(([key1], [key2]) => key1.localeCompare(key2))
+    .map(
+      ([key, value]) =>
+        `${key}=${Array.isArray(value) ? value.join(',') : value}`,
+    )
+    .join('');
+
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(key, item);
+    }
+  }
+  query.set(
+    'signature',
+    crypto
+      .createHmac('sha256', shopify.api.config.apiSecretKey)
+      .update(message)
+      .digest('hex'),
+  );
+
+  return query;
+}
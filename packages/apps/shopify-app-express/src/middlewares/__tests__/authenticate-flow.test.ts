@@ -0,0 +1,131 @@
+import request from 'supertest';
+import express, {Express} from 'express';
+import {Session} from '@shopify/shopify-api';
+
+import {createTestHmac, shopify, TEST_SHOP} from '../../__tests__/test-helper';
+
+const FLOW_PAYLOAD = {
+  shop_id: 1234,
+  shopify_domain: TEST_SHOP,
+  action_run_id: 'action-run-id',
+  action_definition_id: 'action-definition-id',
+  handle: 'my-flow-action',
+  properties: {customer_id: '1234'},
+};
+
+describe('authenticateFlow', () => {
+  let app: Express;
+  let session: Session;
+
+  beforeEach(() => {
+    session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      scope: 'testScope',
+      accessToken: 'totally-real-access-token',
+    });
+
+    app = express();
+    app.use('/flow', shopify.authenticateFlow());
+    app.post('/flow', async (_req, res) => {
+      const {session, payload, admin} = res.locals.shopify;
+
+      res.json({
+        session: session.id,
+        payload,
+        hasAdmin: Boolean(admin.graphql),
+      });
+    });
+  });
+
+  it('populates the context for valid requests', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+    const body = JSON.stringify(FLOW_PAYLOAD);
+
+    const response = await request(app)
+      .post('/flow')
+      .set(
+        'X-Shopify-Hmac-Sha256',
+        createTestHmac(shopify.api.config.apiSecretKey, body),
+      )
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      session: session.id,
+      payload: FLOW_PAYLOAD,
+      hasAdmin: true,
+    });
+  });
+
+  it('returns a 401 if the HMAC is invalid', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+
+    await request(app)
+      .post('/flow')
+      .set('X-Shopify-Hmac-Sha256', 'not-a-valid-hmac')
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify(FLOW_PAYLOAD))
+      .expect(401);
+  });
+
+  it('returns a 401 if the HMAC is missing', async () => {
+    await request(app)
+      .post('/flow')
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify(FLOW_PAYLOAD))
+      .expect(401);
+  });
+
+  it('returns a 400 if there is no session for the shop', async () => {
+    const body = JSON.stringify(FLOW_PAYLOAD);
+
+    await request(app)
+      .post('/flow')
+      .set(
+        'X-Shopify-Hmac-Sha256',
+        createTestHmac(shopify.api.config.apiSecretKey, body),
+      )
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(400);
+  });
+
+  it('returns a 400 if the body is not valid JSON', async () => {
+    const body = 'not json';
+
+    await request(app)
+      .post('/flow')
+      .set(
+        'X-Shopify-Hmac-Sha256',
+        createTestHmac(shopify.api.config.apiSecretKey, body),
+      )
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(400);
+  });
+
+  it('returns a 400 if the shop is not valid', async () => {
+    const body = JSON.stringify({
+      ...FLOW_PAYLOAD,
+      shopify_domain: 'not-a-shop.example.com',
+    });
+
+    await request(app)
+      .post('/flow')
+      .set(
+        'X-Shopify-Hmac-Sha256',
+        createTestHmac(shopify.api.config.apiSecretKey, body),
+      )
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(400);
+  });
+
+  it('returns a 405 for non-POST requests', async () => {
+    await request(app).get('/flow').expect(405);
+  });
+});
@@ -0,0 +1,212 @@
+import {createHmac} from 'crypto';
+
+import request from 'supertest';
+import express, {Express} from 'express';
+import {Session} from '@shopify/shopify-api';
+
+import {createTestHmac, shopify, TEST_SHOP} from '../../__tests__/test-helper';
+
+const FULFILLMENT_PAYLOAD = {kind: 'FULFILLMENT_REQUEST'};
+
+describe('authenticateFulfillmentService', () => {
+  let app: Express;
+  let session: Session;
+
+  beforeEach(() => {
+    session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      scope: 'testScope',
+      accessToken: 'totally-real-access-token',
+    });
+
+    app = express();
+    app.use(
+      '/fulfillment_order_notification',
+      shopify.authenticateFulfillmentService(),
+    );
+    app.post('/fulfillment_order_notification', async (_req, res) => {
+      const {session, payload, admin} = res.locals.shopify;
+
+      res.json({
+        session: session.id,
+        payload,
+        hasAdmin: Boolean(admin.graphql),
+      });
+    });
+  });
+
+  it('populates the context for valid requests', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+    const body = JSON.stringify(FULFILLMENT_PAYLOAD);
+
+    const response = await request(app)
+      .post('/fulfillment_order_notification')
+      .set(
+        'X-Shopify-Hmac-Sha256',
+        createTestHmac(shopify.api.config.apiSecretKey, body),
+      )
+      .set('X-Shopify-Shop-Domain', TEST_SHOP)
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      session: session.id,
+      payload: FULFILLMENT_PAYLOAD,
+      hasAdmin: true,
+    });
+  });
+
+  it('returns a 401 if the HMAC is invalid', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+
+    await request(app)
+      .post('/fulfillment_order_notification')
+      .set('X-Shopify-Hmac-Sha256', 'not-a-valid-hmac')
+      .set('X-Shopify-Shop-Domain', TEST_SHOP)
+      .set('Content-Type', 'application/json')
+      .send(JSON.stringify(FULFILLMENT_PAYLOAD))
+      .expect(401);
+  });
+
+  it('returns a 400 if there is no session for the shop', async () => {
+    const body = JSON.stringify(FULFILLMENT_PAYLOAD);
+
+    await request(app)
+      .post('/fulfillment_order_notification')
+      .set(
+        'X-Shopify-Hmac-Sha256',
+        createTestHmac(shopify.api.config.apiSecretKey, body),
+      )
+      .set('X-Shopify-Shop-Domain', TEST_SHOP)
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(400);
+  });
+
+  it('returns a 400 if the shop header is missing', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+    const body = JSON.stringify(FULFILLMENT_PAYLOAD);
+
+    await request(app)
+      .post('/fulfillment_order_notification')
+      .set(
+        'X-Shopify-Hmac-Sha256',
+        createTestHmac(shopify.api.config.apiSecretKey, body),
+      )
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(400);
+  });
+
+  it('returns a 400 if the body is not valid JSON', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+    const body = '{"kind": ';
+
+    await request(app)
+      .post('/fulfillment_order_notification')
+      .set(
+        'X-Shopify-Hmac-Sha256',
+        createTestHmac(shopify.api.config.apiSecretKey, body),
+      )
+      .set('X-Shopify-Shop-Domain', TEST_SHOP)
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(400);
+  });
+
+  it('returns a 405 for GET requests that are not callbacks', async () => {
+    await request(app).get('/fulfillment_order_notification').expect(405);
+  });
+
+  describe('callbacks', () => {
+    beforeEach(() => {
+      app = express();
+      app.use('/fulfillment', shopify.authenticateFulfillmentService());
+      app.get('/fulfillment/*', async (_req, res) => {
+        res.json({payload: res.locals.shopify.payload});
+      });
+    });
+
+    it('validates fetch_stock requests', async () => {
+      await shopify.config.sessionStorage.storeSession(session);
+
+      const response = await request(app)
+        .get(
+          `/fulfillment/fetch_stock.json?${signQuery({shop: TEST_SHOP, sku: 'ABC-123'})}`,
+        )
+        .expect(200);
+
+      expect(response.body).toEqual({
+        payload: {kind: 'FETCH_STOCK', shop: TEST_SHOP, sku: 'ABC-123'},
+      });
+    });
+
+    it('validates fetch_tracking_numbers requests', async () => {
+      await shopify.config.sessionStorage.storeSession(session);
+
+      const response = await request(app)
+        .get(
+          `/fulfillment/fetch_tracking_numbers.json?${signQuery({
+            shop: TEST_SHOP,
+            'order_names[]': ['#1001.1', '#1002.1'],
+          })}`,
+        )
+        .expect(200);
+
+      expect(response.body).toEqual({
+        payload: {
+          kind: 'FETCH_TRACKING_NUMBERS',
+          shop: TEST_SHOP,
+          orderNames: ['#1001.1', '#1002.1'],
+        },
+      });
+    });
+
+    it('returns a 401 if the query HMAC is invalid', async () => {
+      await shopify.config.sessionStorage.storeSession(session);
+
+      await request(app)
+        .get(
+          `/fulfillment/fetch_stock.json?shop=${TEST_SHOP}&sku=ABC-123&hmac=not-a-valid-hmac`,
+        )
+        .expect(401);
+    });
+
+    it('returns a 400 if there is no session for the shop', async () => {
+      await request(app)
+        .get(`/fulfillment/fetch_stock.json?${signQuery({shop: TEST_SHOP})}`)
+        .expect(400);
+    });
+  });
+});
+
+function signQuery(params: Record<string, string | string[]>): string {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      searchParams.append(key, item);
+    }
+  }
+
+  // Shopify signs the sorted query, joining the values of repeated params with commas
+  const signedParams = new URLSearchParams(
+    Object.entries(params)
+      .map(([key, value]): [string, string] => [
+        key,
+        Array.isArray(value) ? value.join(',') : value,
+      ])
+      .sort(([key1], [key2]) => key1.localeCompare(key2)),
+  );
+  searchParams.append(
+    'hmac',
+    createHmac('sha256', shopify.api.config.apiSecretKey)
+      .update(signedParams.toString())
+      .digest('hex'),
+  );
+
+  return searchParams.toString();
+}
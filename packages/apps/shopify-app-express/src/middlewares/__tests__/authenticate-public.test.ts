@@ -0,0 +1,105 @@
+import request from 'supertest';
+import express, {Express} from 'express';
+import jwt from 'jsonwebtoken';
+
+import {shopify, TEST_SHOP} from '../../__tests__/test-helper';
+
+const EXTENSION_ORIGIN = 'https://extensions.shopifycdn.com';
+
+describe('authenticatePublic', () => {
+  let app: Express;
+  let validJWT: string;
+
+  beforeEach(() => {
+    validJWT = jwt.sign(
+      {
+        aud: 'some-other-client-id',
+        dest: `https://${TEST_SHOP}`,
+        sub: '12345',
+      },
+      shopify.api.config.apiSecretKey,
+      {algorithm: 'HS256'},
+    );
+
+    app = express();
+    app.use('/checkout', shopify.authenticatePublic.checkout());
+    app.use(
+      '/customer-account',
+      shopify.authenticatePublic.customerAccount({
+        corsHeaders: ['X-My-Header'],
+      }),
+    );
+    app.use('/pos', shopify.authenticatePublic.pos());
+    app.all('/*', async (_req, res) => {
+      res.json({sessionToken: res.locals.shopify.sessionToken});
+    });
+  });
+
+  describe.each(['/checkout', '/customer-account', '/pos'])('%s', (path) => {
+    it('populates the context with the decoded session token', async () => {
+      const response = await request(app)
+        .get(path)
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(200);
+
+      expect(response.body.sessionToken).toMatchObject({
+        dest: `https://${TEST_SHOP}`,
+        sub: '12345',
+      });
+    });
+
+    it('returns a 401 if there is no session token', async () => {
+      await request(app).get(path).expect(401);
+    });
+
+    it('asks the extension to retry if the session token is invalid', async () => {
+      const invalidJWT = jwt.sign(
+        {dest: `https://${TEST_SHOP}`},
+        'not-the-api-secret',
+        {algorithm: 'HS256'},
+      );
+
+      const response = await request(app)
+        .get(path)
+        .set('Authorization', `Bearer ${invalidJWT}`)
+        .expect(401);
+
+      expect(response.headers['x-shopify-retry-invalid-session-request']).toBe(
+        '1',
+      );
+    });
+
+    it('responds to OPTIONS requests', async () => {
+      const response = await request(app)
+        .options(path)
+        .set('Origin', EXTENSION_ORIGIN)
+        .expect(204);
+
+      expect(response.headers['access-control-allow-origin']).toBe('*');
+      expect(response.headers['access-control-max-age']).toBe('7200');
+    });
+  });
+
+  it('adds CORS headers for requests from other origins', async () => {
+    const response = await request(app)
+      .get('/customer-account')
+      .set('Origin', EXTENSION_ORIGIN)
+      .set('Authorization', `Bearer ${validJWT}`)
+      .expect(200);
+
+    expect(response.headers['access-control-allow-origin']).toBe('*');
+    expect(response.headers['access-control-allow-headers']).toBe(
+      'Authorization, Content-Type, X-My-Header',
+    );
+  });
+
+  it('does not add CORS headers for requests from the app origin', async () => {
+    const response = await request(app)
+      .get('/checkout')
+      .set('Origin', `https://${shopify.api.config.hostName}`)
+      .set('Authorization', `Bearer ${validJWT}`)
+      .expect(200);
+
+    expect(response.headers['access-control-allow-origin']).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import request from 'supertest';
+import express, {Express, NextFunction, Request, Response} from 'express';
+import {Session} from '@shopify/shopify-api';
+
+import {
+  shopify,
+  TEST_SHOP,
+  TEST_WEBHOOK_ID,
+  validWebhookHeaders,
+} from '../../__tests__/test-helper';
+
+const PAYLOAD = {id: 1234, title: 'Test product'};
+
+describe('authenticateWebhook', () => {
+  let app: Express;
+  let session: Session;
+
+  beforeEach(() => {
+    session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      scope: 'testScope',
+      accessToken: 'totally-real-access-token',
+    });
+
+    app = express();
+    app.use('/webhooks/*', shopify.authenticateWebhook());
+    app.post('/webhooks/products/create', async (_req, res) => {
+      const {topic, shop, webhookId, apiVersion, payload, admin} =
+        res.locals.shopify;
+
+      res.json({
+        topic,
+        shop,
+        webhookId,
+        apiVersion,
+        payload,
+        session: res.locals.shopify.session?.id ?? null,
+        hasAdmin: Boolean(admin),
+      });
+    });
+  });
+
+  it('populates the context for valid requests', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+    const body = JSON.stringify(PAYLOAD);
+
+    const response = await request(app)
+      .post('/webhooks/products/create')
+      .set(
+        validWebhookHeaders(
+          'products/create',
+          body,
+          shopify.api.config.apiSecretKey,
+        ),
+      )
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      topic: 'PRODUCTS_CREATE',
+      shop: TEST_SHOP,
+      webhookId: TEST_WEBHOOK_ID,
+      apiVersion: shopify.api.config.apiVersion,
+      payload: PAYLOAD,
+      session: session.id,
+      hasAdmin: true,
+    });
+  });
+
+  it('proceeds without clients if the shop has no session', async () => {
+    const body = JSON.stringify(PAYLOAD);
+
+    const response = await request(app)
+      .post('/webhooks/products/create')
+      .set(
+        validWebhookHeaders(
+          'products/create',
+          body,
+          shopify.api.config.apiSecretKey,
+        ),
+      )
+      .send(body)
+      .expect(200);
+
+    expect(response.body).toMatchObject({session: null, hasAdmin: false});
+  });
+
+  it('returns a 401 if the HMAC is invalid', async () => {
+    const body = JSON.stringify(PAYLOAD);
+
+    await request(app)
+      .post('/webhooks/products/create')
+      .set(validWebhookHeaders('products/create', body, 'not-the-secret'))
+      .send(body)
+      .expect(401);
+  });
+
+  it('returns a 400 if headers are missing', async () => {
+    const body = JSON.stringify(PAYLOAD);
+    const {'X-Shopify-Topic': _topic, ...headers} = validWebhookHeaders(
+      'products/create',
+      body,
+      shopify.api.config.apiSecretKey,
+    );
+
+    await request(app)
+      .post('/webhooks/products/create')
+      .set(headers)
+      .send(body)
+      .expect(400);
+  });
+
+  it('returns a 405 for non-POST requests', async () => {
+    await request(app).get('/webhooks/products/create').expect(405);
+  });
+
+  it('lets Express handle errors thrown by the route', async () => {
+    app = express();
+    app.post(
+      '/webhooks/orders/create',
+      shopify.authenticateWebhook(),
+      async (_req: Request, _res: Response, next: NextFunction) => {
+        next(new Error('Failed to handle order'));
+      },
+    );
+
+    const body = JSON.stringify(PAYLOAD);
+
+    const response = await request(app)
+      .post('/webhooks/orders/create')
+      .set(
+        validWebhookHeaders(
+          'orders/create',
+          body,
+          shopify.api.config.apiSecretKey,
+        ),
+      )
+      .send(body)
+      .expect(500);
+
+    expect(response.text).toContain('Failed to handle order');
+  });
+});
@@ -0,0 +1,120 @@
+import request from 'supertest';
+import express, {Express, NextFunction, Request, Response} from 'express';
+import {Session} from '@shopify/shopify-api';
+
+import {shopify, TEST_SHOP} from '../../__tests__/test-helper';
+
+describe('ensureBilling', () => {
+  let app: Express;
+  let session: Session;
+
+  beforeEach(() => {
+    shopify.config.auth.checkBillingPlans = ['My plan', 'My other plan'];
+
+    session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      scope: 'testScope',
+      accessToken: 'totally-real-access-token',
+    });
+
+    app = express();
+    app.use(
+      '/api/*',
+      (_req: Request, res: Response, next: NextFunction) => {
+        res.locals.shopify = {session};
+        next();
+      },
+      shopify.ensureBilling(),
+    );
+    app.get('/api/shop', async (_req, res) => {
+      res.json({shop: res.locals.shopify.session.shop});
+    });
+  });
+
+  it('proceeds if the shop has an active payment', async () => {
+    const checkMock = jest
+      .spyOn(shopify.api.billing, 'check')
+      .mockResolvedValueOnce({hasActivePayment: true} as any);
+    const requestMock = jest.spyOn(shopify.api.billing, 'request');
+
+    const response = await request(app).get('/api/shop').expect(200);
+
+    expect(response.body).toEqual({shop: TEST_SHOP});
+    expect(checkMock).toHaveBeenCalledWith({
+      session,
+      plans: ['My plan', 'My other plan'],
+      isTest: undefined,
+      returnObject: true,
+    });
+    expect(requestMock).not.toHaveBeenCalled();
+  });
+
+  it('redirects to the confirmation URL for the first plan if there is no payment', async () => {
+    shopify.config.auth.billingIsTest = false;
+
+    jest
+      .spyOn(shopify.api.billing, 'check')
+      .mockResolvedValueOnce({hasActivePayment: false} as any);
+    const requestMock = jest
+      .spyOn(shopify.api.billing, 'request')
+      .mockResolvedValueOnce('https://billing-confirmation-url');
+
+    const response = await request(app).get('/api/shop').expect(302);
+
+    expect(response.header.location).toBe('https://billing-confirmation-url');
+    expect(requestMock).toHaveBeenCalledWith({
+      session,
+      plan: 'My plan',
+      isTest: false,
+    });
+  });
+
+  it('returns App Bridge redirect headers for fetch requests', async () => {
+    jest
+      .spyOn(shopify.api.billing, 'check')
+      .mockResolvedValueOnce({hasActivePayment: false} as any);
+    jest
+      .spyOn(shopify.api.billing, 'request')
+      .mockResolvedValueOnce('https://billing-confirmation-url');
+
+    const response = await request(app)
+      .get('/api/shop')
+      .set('Authorization', 'Bearer token')
+      .expect(403);
+
+    expect(
+      response.headers['x-shopify-api-request-failure-reauthorize-url'],
+    ).toBe('https://billing-confirmation-url');
+  });
+
+  it('proceeds if there are no plans to check', async () => {
+    shopify.config.auth.checkBillingPlans = undefined;
+    const checkMock = jest.spyOn(shopify.api.billing, 'check');
+
+    await request(app).get('/api/shop').expect(200);
+
+    expect(checkMock).not.toHaveBeenCalled();
+  });
+
+  it('returns a 500 if the billing check fails', async () => {
+    jest
+      .spyOn(shopify.api.billing, 'check')
+      .mockRejectedValueOnce(new Error('Something went wrong'));
+
+    const response = await request(app).get('/api/shop').expect(500);
+
+    expect(response.text).toBe('Something went wrong');
+  });
+
+  it('returns a 500 if there is no session', async () => {
+    app = express();
+    app.get('/api/shop', shopify.ensureBilling(), async (_req, res) => {
+      res.send('OK');
+    });
+
+    await request(app).get('/api/shop').expect(500);
+  });
+});
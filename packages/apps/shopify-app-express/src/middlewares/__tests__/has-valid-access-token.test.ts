@@ -0,0 +1,159 @@
+import fetchMock from 'jest-fetch-mock';
+import {HttpResponseError, Session} from '@shopify/shopify-api';
+
+import {
+  mockShopifyResponse,
+  mockShopifyResponses,
+  shopify,
+  TEST_SHOP,
+} from '../../__tests__/test-helper';
+import {createAdminApiContext} from '../../clients';
+import {
+  ACCESS_TOKEN_CHECKED_AT_PROPERTY,
+  hasValidAccessToken,
+} from '../has-valid-access-token';
+
+describe('hasValidAccessToken', () => {
+  let session: Session;
+
+  beforeEach(() => {
+    session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      scope: 'testScope',
+      accessToken: 'totally-real-access-token',
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('checks on every request by default', async () => {
+    await shopify.config.sessionStorage.storeSession(session);
+    mockShopifyResponse({data: {shop: {name: 'Test shop'}}});
+
+    await hasValidAccessToken(shopify.api, shopify.config, session);
+    await hasValidAccessToken(shopify.api, shopify.config, session);
+
+    expect(fetchMock.mock.calls).toHaveLength(2);
+    expect(
+      (await shopify.config.sessionStorage.loadSession(session.id))
+        ?.customProperties,
+    ).toBeUndefined();
+  });
+
+  it('trusts a successful check stored with the session until the TTL expires', async () => {
+    jest.useFakeTimers({now: new Date('2024-01-01T00:00:00Z')});
+    shopify.config.accessTokenCheck.ttl = 300;
+    mockShopifyResponse({data: {shop: {name: 'Test shop'}}});
+
+    await expect(
+      hasValidAccessToken(shopify.api, shopify.config, session),
+    ).resolves.toBe(true);
+
+    const storedSession = await shopify.config.sessionStorage.loadSession(
+      session.id,
+    );
+    expect(storedSession?.customProperties).toEqual({
+      [ACCESS_TOKEN_CHECKED_AT_PROPERTY]: Date.now(),
+    });
+
+    await expect(
+      hasValidAccessToken(shopify.api, shopify.config, storedSession!),
+    ).resolves.toBe(true);
+    expect(fetchMock.mock.calls).toHaveLength(1);
+
+    jest.setSystemTime(new Date('2024-01-01T00:05:00Z'));
+
+    await expect(
+      hasValidAccessToken(shopify.api, shopify.config, storedSession!),
+    ).resolves.toBe(true);
+    expect(fetchMock.mock.calls).toHaveLength(2);
+  });
+
+  it('returns false for unauthorized tokens', async () => {
+    shopify.config.accessTokenCheck.ttl = 300;
+    mockShopifyResponse({errors: 'Invalid token'}, {status: 401});
+
+    await expect(
+      hasValidAccessToken(shopify.api, shopify.config, session),
+    ).resolves.toBe(false);
+    expect(
+      await shopify.config.sessionStorage.loadSession(session.id),
+    ).toBeUndefined();
+  });
+
+  it('does not check tokens when disabled', async () => {
+    shopify.config.accessTokenCheck.enabled = false;
+
+    await expect(
+      hasValidAccessToken(shopify.api, shopify.config, session),
+    ).resolves.toBe(true);
+    expect(fetchMock.mock.calls).toHaveLength(0);
+  });
+
+  it('checks again after an Admin API client gets a 401', async () => {
+    shopify.config.accessTokenCheck.ttl = 300;
+    mockShopifyResponses(
+      [{data: {shop: {name: 'Test shop'}}}],
+      [{errors: 'Invalid token'}, {status: 401}],
+      [{errors: 'Invalid token'}, {status: 401}],
+    );
+
+    await hasValidAccessToken(shopify.api, shopify.config, session);
+
+    const admin = createAdminApiContext(shopify.api, session);
+    await expect(admin.graphql.request('{ shop { name } }')).rejects.toThrow(
+      HttpResponseError,
+    );
+
+    const storedSession = await shopify.config.sessionStorage.loadSession(
+      session.id,
+    );
+    expect(storedSession?.customProperties).toEqual({});
+    await expect(
+      hasValidAccessToken(shopify.api, shopify.config, storedSession!),
+    ).resolves.toBe(false);
+    expect(fetchMock.mock.calls).toHaveLength(3);
+  });
+
+  it('clears the check when a REST request gets a 401', async () => {
+    session.customProperties = {
+      [ACCESS_TOKEN_CHECKED_AT_PROPERTY]: Date.now(),
+      plan: 'basic',
+    };
+    await shopify.config.sessionStorage.storeSession(session);
+    mockShopifyResponse({errors: 'Invalid token'}, {status: 401});
+
+    const admin = createAdminApiContext(shopify.api, session);
+    await expect(admin.rest.get({path: 'shop'})).rejects.toThrow(
+      HttpResponseError,
+    );
+
+    expect(
+      (await shopify.config.sessionStorage.loadSession(session.id))
+        ?.customProperties,
+    ).toEqual({plan: 'basic'});
+  });
+
+  it('clears the check when a client created from the API library gets a 401', async () => {
+    session.customProperties = {
+      [ACCESS_TOKEN_CHECKED_AT_PROPERTY]: Date.now(),
+    };
+    await shopify.config.sessionStorage.storeSession(session);
+    mockShopifyResponse({errors: 'Invalid token'}, {status: 401});
+
+    const client = new shopify.api.clients.Graphql({session});
+    await expect(client.request('{ shop { name } }')).rejects.toThrow(
+      HttpResponseError,
+    );
+
+    expect(
+      (await shopify.config.sessionStorage.loadSession(session.id))
+        ?.customProperties,
+    ).toEqual({});
+  });
+});
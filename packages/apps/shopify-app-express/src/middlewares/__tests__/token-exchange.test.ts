@@ -0,0 +1,493 @@
+import request from 'supertest';
+import express, {Express} from 'express';
+import {
+  HttpResponseError,
+  RequestedTokenType,
+  Session,
+} from '@shopify/shopify-api';
+import jwt from 'jsonwebtoken';
+
+import {
+  BASE64_HOST,
+  mockShopifyResponse,
+  shopify,
+  SHOPIFY_HOST,
+  TEST_SHOP,
+} from '../../__tests__/test-helper';
+
+describe('token exchange', () => {
+  let app: Express;
+  let validJWT: string;
+  let offlineSession: Session;
+
+  beforeEach(() => {
+    shopify.config.useTokenExchange = true;
+    shopify.api.config.isEmbeddedApp = true;
+
+    validJWT = jwt.sign(
+      {
+        aud: shopify.api.config.apiKey,
+        dest: `https://${TEST_SHOP}`,
+        sub: '12345',
+      },
+      shopify.api.config.apiSecretKey,
+      {algorithm: 'HS256'},
+    );
+
+    offlineSession = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '',
+      isOnline: false,
+      scope: shopify.api.config.scopes!.toString(),
+      accessToken: 'offline-access-token',
+    });
+
+    jest.spyOn(shopify.api.webhooks, 'register').mockResolvedValue({});
+  });
+
+  describe('validateAuthenticatedSession', () => {
+    beforeEach(() => {
+      app = express();
+      app.use('/api/*', shopify.validateAuthenticatedSession());
+      app.get('/api/shop', async (_req, res) => {
+        res.json({shop: res.locals.shopify.session.shop});
+      });
+    });
+
+    it('uses the stored session if it is valid', async () => {
+      const tokenExchangeMock = jest.spyOn(shopify.api.auth, 'tokenExchange');
+      await shopify.config.sessionStorage.storeSession(offlineSession);
+      mockShopifyResponse({data: {shop: {name: TEST_SHOP}}});
+
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(200);
+
+      expect(response.body).toEqual({shop: TEST_SHOP});
+      expect(tokenExchangeMock).not.toHaveBeenCalled();
+    });
+
+    it('exchanges the session token if there is no stored session', async () => {
+      const tokenExchangeMock = jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession});
+
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(200);
+
+      expect(response.body).toEqual({shop: TEST_SHOP});
+      expect(tokenExchangeMock).toHaveBeenCalledWith({
+        shop: TEST_SHOP,
+        sessionToken: validJWT,
+        requestedTokenType: RequestedTokenType.OfflineAccessToken,
+      });
+      expect(shopify.api.webhooks.register).toHaveBeenCalledWith({
+        session: offlineSession,
+      });
+      expect(
+        await shopify.config.sessionStorage.loadSession(offlineSession.id),
+      ).toEqual(offlineSession);
+    });
+
+    it('exchanges the session token if the stored token is invalid', async () => {
+      await shopify.config.sessionStorage.storeSession(offlineSession);
+      mockShopifyResponse({errors: 'Invalid token'}, {status: 401});
+
+      const newSession = new Session({
+        ...offlineSession.toObject(),
+        accessToken: 'new-offline-access-token',
+      });
+      jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: newSession});
+
+      await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(200);
+
+      const storedSession = await shopify.config.sessionStorage.loadSession(
+        offlineSession.id,
+      );
+      expect(storedSession?.accessToken).toEqual('new-offline-access-token');
+    });
+
+    it('exchanges both offline and online tokens when using online tokens', async () => {
+      shopify.config.useOnlineTokens = true;
+
+      const onlineSession = new Session({
+        id: `${TEST_SHOP}_12345`,
+        shop: TEST_SHOP,
+        state: '',
+        isOnline: true,
+        scope: shopify.api.config.scopes!.toString(),
+        accessToken: 'online-access-token',
+      });
+      const tokenExchangeMock = jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession})
+        .mockResolvedValueOnce({session: onlineSession});
+
+      await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(200);
+
+      expect(tokenExchangeMock).toHaveBeenNthCalledWith(2, {
+        shop: TEST_SHOP,
+        sessionToken: validJWT,
+        requestedTokenType: RequestedTokenType.OnlineAccessToken,
+      });
+      expect(
+        await shopify.config.sessionStorage.loadSession(onlineSession.id),
+      ).toEqual(onlineSession);
+    });
+
+    it('runs the afterAuth hook for each new token', async () => {
+      shopify.config.useOnlineTokens = true;
+      const afterAuthMock = jest.fn();
+      shopify.config.hooks.afterAuth = afterAuthMock;
+
+      const onlineSession = new Session({
+        id: `${TEST_SHOP}_12345`,
+        shop: TEST_SHOP,
+        state: '',
+        isOnline: true,
+        scope: shopify.api.config.scopes!.toString(),
+        accessToken: 'online-access-token',
+      });
+      jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession})
+        .mockResolvedValueOnce({session: onlineSession});
+
+      await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(200);
+
+      expect(afterAuthMock).toHaveBeenCalledTimes(2);
+      expect(afterAuthMock).toHaveBeenNthCalledWith(1, {
+        session: offlineSession,
+        admin: {
+          graphql: expect.any(shopify.api.clients.Graphql),
+          rest: expect.any(shopify.api.clients.Rest),
+        },
+        isNewInstall: true,
+      });
+      expect(afterAuthMock).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({session: onlineSession, isNewInstall: false}),
+      );
+    });
+
+    it('returns a 500 if the afterAuth hook fails', async () => {
+      shopify.config.hooks.afterAuth = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Test hook error'));
+      jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession});
+
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(500);
+
+      expect(response.text).toEqual('Test hook error');
+    });
+
+    it('asks App Bridge to retry the request if the session token is invalid', async () => {
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', 'Bearer not-a-valid-token')
+        .expect(401);
+
+      expect(
+        response.headers['x-shopify-retry-invalid-session-request'],
+      ).toEqual('1');
+    });
+
+    it('asks App Bridge to retry the request if Shopify rejects the session token', async () => {
+      jest.spyOn(shopify.api.auth, 'tokenExchange').mockRejectedValueOnce(
+        new HttpResponseError({
+          message: 'Invalid subject token',
+          code: 400,
+          statusText: 'Bad Request',
+          body: {error: 'invalid_subject_token'},
+        }),
+      );
+
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(401);
+
+      expect(
+        response.headers['x-shopify-retry-invalid-session-request'],
+      ).toEqual('1');
+    });
+
+    it('returns a 500 if the token exchange fails', async () => {
+      jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockRejectedValueOnce(new Error('Something went wrong'));
+
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(500);
+
+      expect(response.text).toEqual('Something went wrong');
+    });
+
+    it('exchanges the session token if the stored session scopes do not match', async () => {
+      await shopify.config.sessionStorage.storeSession(
+        new Session({...offlineSession.toObject(), scope: 'otherScope'}),
+      );
+      const tokenExchangeMock = jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession});
+
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(200);
+
+      expect(response.body).toEqual({shop: TEST_SHOP});
+      expect(tokenExchangeMock).toHaveBeenCalledTimes(1);
+      expect(
+        response.headers['x-shopify-api-request-failure-reauthorize-url'],
+      ).toBeUndefined();
+      const storedSession = await shopify.config.sessionStorage.loadSession(
+        offlineSession.id,
+      );
+      expect(storedSession?.scope).toEqual(offlineSession.scope);
+    });
+
+    it('redirects to auth if the exchanged session scopes still do not match', async () => {
+      const underScopedSession = new Session({
+        ...offlineSession.toObject(),
+        scope: 'otherScope',
+      });
+      await shopify.config.sessionStorage.storeSession(underScopedSession);
+      const tokenExchangeMock = jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: underScopedSession});
+
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(403);
+
+      expect(tokenExchangeMock).toHaveBeenCalledTimes(1);
+      expect(
+        response.headers['x-shopify-api-request-failure-reauthorize-url'],
+      ).toEqual(`${shopify.config.auth.path}?shop=${TEST_SHOP}`);
+    });
+
+    it('rejects session tokens for a different shop than the request', async () => {
+      const tokenExchangeMock = jest.spyOn(shopify.api.auth, 'tokenExchange');
+
+      await request(app)
+        .get('/api/shop?shop=other-shop.myshopify.io')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(401);
+
+      expect(tokenExchangeMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ensureInstalledOnShop', () => {
+    beforeEach(() => {
+      app = express();
+      app.use('/*', shopify.ensureInstalledOnShop());
+      app.get('/*', async (_req, res) => {
+        res.send('Hello world!');
+      });
+    });
+
+    it('exchanges the session token from the search params', async () => {
+      const tokenExchangeMock = jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession});
+
+      const response = await request(app)
+        .get(
+          `/?shop=${TEST_SHOP}&host=${BASE64_HOST}&embedded=1&id_token=${validJWT}`,
+        )
+        .expect(200);
+
+      expect(response.text).toEqual('Hello world!');
+      expect(response.headers['content-security-policy']).toEqual(
+        `frame-ancestors https://${TEST_SHOP} https://admin.shopify.com https://*.spin.dev;`,
+      );
+      expect(tokenExchangeMock).toHaveBeenCalledWith({
+        shop: TEST_SHOP,
+        sessionToken: validJWT,
+        requestedTokenType: RequestedTokenType.OfflineAccessToken,
+      });
+    });
+
+    it('exchanges the session token instead of redirecting to auth if the stored session scopes do not match', async () => {
+      await shopify.config.sessionStorage.storeSession(
+        new Session({...offlineSession.toObject(), scope: 'otherScope'}),
+      );
+      jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession});
+
+      const response = await request(app)
+        .get(
+          `/?shop=${TEST_SHOP}&host=${BASE64_HOST}&embedded=1&id_token=${validJWT}`,
+        )
+        .expect(200);
+
+      expect(response.text).toEqual('Hello world!');
+    });
+
+    it('redirects out of the app to auth if the exchanged session scopes still do not match', async () => {
+      jest.spyOn(shopify.api.auth, 'tokenExchange').mockResolvedValueOnce({
+        session: new Session({
+          ...offlineSession.toObject(),
+          scope: 'otherScope',
+        }),
+      });
+
+      const response = await request(app)
+        .get(
+          `/?shop=${TEST_SHOP}&host=${BASE64_HOST}&embedded=1&id_token=${validJWT}`,
+        )
+        .expect(302);
+
+      const location = new URL(response.header.location, 'https://example.com');
+      expect(location.pathname).toEqual(shopify.config.exitIframePath);
+      expect(location.searchParams.get('redirectUri')).toEqual(
+        `${shopify.config.auth.path}?shop=${TEST_SHOP}`,
+      );
+    });
+
+    it('rejects session tokens for a different shop than the request', async () => {
+      const tokenExchangeMock = jest.spyOn(shopify.api.auth, 'tokenExchange');
+
+      await request(app)
+        .get(
+          `/?shop=other-shop.myshopify.io&host=${BASE64_HOST}&embedded=1&id_token=${validJWT}`,
+        )
+        .expect(401);
+
+      expect(tokenExchangeMock).not.toHaveBeenCalled();
+    });
+
+    it('redirects to the bounce page if the session token is missing', async () => {
+      const response = await request(app)
+        .get(`/page?shop=${TEST_SHOP}&host=${BASE64_HOST}&embedded=1`)
+        .expect(302);
+
+      const location = new URL(response.header.location, 'https://example.com');
+      expect(location.pathname).toEqual('/page');
+      expect(location.searchParams.get('shop')).toEqual(TEST_SHOP);
+
+      const reloadUrl = new URL(location.searchParams.get('shopify-reload')!);
+      expect(reloadUrl.host).toEqual(shopify.api.config.hostName);
+      expect(reloadUrl.pathname).toEqual('/page');
+      expect(reloadUrl.searchParams.get('id_token')).toBeNull();
+    });
+
+    it('renders App Bridge on the bounce page', async () => {
+      const reloadUrl = `https://${shopify.api.config.hostName}/page?shop=${TEST_SHOP}&embedded=1`;
+
+      const response = await request(app)
+        .get(
+          `/page?shop=${TEST_SHOP}&host=${BASE64_HOST}&embedded=1&shopify-reload=${encodeURIComponent(
+            reloadUrl,
+          )}`,
+        )
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch('text/html');
+      expect(response.text).toContain(
+        `data-api-key="${shopify.api.config.apiKey}"`,
+      );
+    });
+
+    it('embeds the app if the request is not embedded and the shop is installed', async () => {
+      await shopify.config.sessionStorage.storeSession(offlineSession);
+
+      const response = await request(app)
+        .get(`/?shop=${TEST_SHOP}&host=${BASE64_HOST}`)
+        .expect(302);
+
+      const location = new URL(response.header.location);
+      expect(location.pathname).toEqual(`/apps/${shopify.api.config.apiKey}/`);
+    });
+
+    it('redirects to auth if the request is not embedded and the shop is not installed', async () => {
+      const response = await request(app)
+        .get(`/?shop=${TEST_SHOP}&host=${BASE64_HOST}`)
+        .expect(302);
+
+      const location = new URL(response.header.location);
+      expect(location.host).toEqual(TEST_SHOP);
+      expect(location.pathname).toEqual('/admin/oauth/authorize');
+    });
+  });
+
+  describe('with managed installation', () => {
+    beforeEach(() => {
+      shopify.config.managedInstall = true;
+      offlineSession.scope = 'scopeGrantedByShopify';
+
+      app = express();
+      app.use('/api/*', shopify.validateAuthenticatedSession());
+      app.get('/api/shop', async (_req, res) => {
+        res.json({shop: res.locals.shopify.session.shop});
+      });
+      app.use('/*', shopify.ensureInstalledOnShop());
+      app.get('/*', async (_req, res) => {
+        res.send('Hello world!');
+      });
+    });
+
+    it('accepts the scopes granted by Shopify in authenticated requests', async () => {
+      jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession});
+
+      const response = await request(app)
+        .get('/api/shop')
+        .set('Authorization', `Bearer ${validJWT}`)
+        .expect(200);
+
+      expect(response.body).toEqual({shop: TEST_SHOP});
+    });
+
+    it('accepts the scopes granted by Shopify when loading the app', async () => {
+      jest
+        .spyOn(shopify.api.auth, 'tokenExchange')
+        .mockResolvedValueOnce({session: offlineSession});
+
+      const response = await request(app)
+        .get(
+          `/?shop=${TEST_SHOP}&host=${BASE64_HOST}&embedded=1&id_token=${validJWT}`,
+        )
+        .expect(200);
+
+      expect(response.text).toEqual('Hello world!');
+    });
+
+    it('embeds the app instead of redirecting to OAuth if the shop is not installed', async () => {
+      const response = await request(app)
+        .get(`/?shop=${TEST_SHOP}&host=${BASE64_HOST}`)
+        .expect(302);
+
+      const location = new URL(response.header.location);
+      expect(location.host).toEqual(SHOPIFY_HOST);
+      expect(location.pathname).toEqual(`/apps/${shopify.api.config.apiKey}/`);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import {Request, Response, NextFunction} from 'express';
+import {AuthQuery, Shopify} from '@shopify/shopify-api';
+
+import {ApiAndConfigParams} from '../types';
+import {AppConfigInterface} from '../config-types';
+import {createAdminApiContext, createStorefrontApiContext} from '../clients';
+
+import {
+  AppProxyContext,
+  AuthenticateAppProxyMiddleware,
+  LiquidResponseFunction,
+} from './types';
+import {getQueryParams} from './get-query-params';
+
+export function authenticateAppProxy({
+  api,
+  config,
+}: ApiAndConfigParams): AuthenticateAppProxyMiddleware {
+  return function authenticateAppProxy() {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const query = getQueryParams(req);
+      const shop = api.utils.sanitizeShop(query.shop as string);
+
+      config.logger.info('Authenticating app proxy request', {shop});
+
+      if (!shop || !(await hasValidSignature(api, config, query))) {
+        config.logger.info('App proxy request has invalid signature', {shop});
+
+        res.status(400);
+        res.send('Invalid app proxy signature');
+        return undefined;
+      }
+
+      const context: AppProxyContext = {
+        shop,
+        loggedInCustomerId:
+          (query.logged_in_customer_id as string) || undefined,
+        liquid: liquidResponse(res),
+      };
+
+      const sessionId = api.session.getOfflineId(shop);
+      const session = await config.sessionStorage.loadSession(sessionId);
+
+      if (session) {
+        context.session = session;
+        context.admin = createAdminApiContext(api, session);
+        context.storefront = createStorefrontApiContext(api, session);
+      } else {
+        config.logger.debug(
+          'Could not find offline session, proceeding without API clients',
+          {shop},
+        );
+      }
+
+      res.locals.shopify = {
+        ...res.locals.shopify,
+        ...context,
+      };
+
+      return next();
+    };
+  };
+}
+
+async function hasValidSignature(
+  api: Shopify,
+  config: AppConfigInterface,
+  query: AuthQuery,
+): Promise<boolean> {
+  try {
+    return await api.utils.validateHmac(query, {signator: 'appProxy'});
+  } catch (error) {
+    config.logger.debug(`Failed to validate app proxy signature: ${error}`, {
+      shop: query.shop,
+    });
+    return false;
+  }
+}
+
+function liquidResponse(res: Response): LiquidResponseFunction {
+  return function liquid(body, {status = 200, layout = true} = {}) {
+    res.status(status);
+    res.setHeader('Content-Type', 'application/liquid');
+    res.send(layout ? body : `{% layout none %} ${body}`);
+  };
+}
@@ -0,0 +1,105 @@
+import express, {Request, Response, NextFunction} from 'express';
+
+import {ApiAndConfigParams} from '../types';
+import {createAdminApiContext} from '../clients';
+
+import {AuthenticateFlowMiddleware, FlowContext} from './types';
+
+export function authenticateFlow({
+  api,
+  config,
+}: ApiAndConfigParams): AuthenticateFlowMiddleware {
+  return function authenticateFlow() {
+    return [
+      express.text({type: '*/*', limit: '500kb'}),
+      async (req: Request, res: Response, next: NextFunction) => {
+        config.logger.info('Authenticating Flow request');
+
+        if (req.method !== 'POST') {
+          config.logger.debug(
+            'Received a non-POST request for Flow. Only POST requests are allowed.',
+            {url: req.originalUrl, method: req.method},
+          );
+
+          res.status(405);
+          res.send('Method not allowed');
+          return undefined;
+        }
+
+        const rawBody = typeof req.body === 'string' ? req.body : '';
+        const result = await api.flow.validate({
+          rawBody,
+          rawRequest: req,
+          rawResponse: res,
+        });
+
+        if (!result.valid) {
+          config.logger.error('Received an invalid Flow request', {
+            reason: result.reason,
+          });
+
+          res.status(401);
+          res.send('Unauthorized');
+          return undefined;
+        }
+
+        let payload: any;
+        try {
+          payload = JSON.parse(rawBody);
+        } catch (error) {
+          config.logger.debug(`Flow request body is not valid JSON: ${error}`);
+
+          res.status(400);
+          res.send('Bad Request');
+          return undefined;
+        }
+
+        const shop =
+          typeof payload?.shopify_domain === 'string'
+            ? api.utils.sanitizeShop(payload.shopify_domain)
+            : null;
+
+        if (!shop) {
+          config.logger.debug('Flow request does not have a valid shop', {
+            shop: payload?.shopify_domain,
+          });
+
+          res.status(400);
+          res.send('Bad Request');
+          return undefined;
+        }
+
+        config.logger.debug(
+          'Flow request is valid, looking for an offline session',
+          {shop},
+        );
+
+        const sessionId = api.session.getOfflineId(shop);
+        const session = await config.sessionStorage.loadSession(sessionId);
+
+        if (!session) {
+          config.logger.info('Flow request could not find session', {shop});
+
+          res.status(400);
+          res.send('Bad Request');
+          return undefined;
+        }
+
+        config.logger.debug('Found a session for the Flow request', {shop});
+
+        const context: FlowContext = {
+          session,
+          payload,
+          admin: createAdminApiContext(api, session),
+        };
+
+        res.locals.shopify = {
+          ...res.locals.shopify,
+          ...context,
+        };
+
+        return next();
+      },
+    ];
+  };
+}
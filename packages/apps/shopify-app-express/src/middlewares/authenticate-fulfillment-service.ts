@@ -0,0 +1,221 @@
+import express, {Request, Response, NextFunction} from 'express';
+import {Shopify, ShopifyHeader} from '@shopify/shopify-api';
+
+import {ApiAndConfigParams} from '../types';
+import {AppConfigInterface} from '../config-types';
+import {createAdminApiContext} from '../clients';
+
+import {
+  AuthenticateFulfillmentServiceMiddleware,
+  FulfillmentServiceContext,
+  FulfillmentServicePayload,
+} from './types';
+import {getQueryParams} from './get-query-params';
+
+const FETCH_STOCK_PATH = /\/fetch_stock\.json$/;
+const FETCH_TRACKING_NUMBERS_PATH = /\/fetch_tracking_numbers\.json$/;
+
+interface FulfillmentServiceRequest {
+  shop: string | false | null;
+  payload: FulfillmentServicePayload;
+}
+
+export function authenticateFulfillmentService({
+  api,
+  config,
+}: ApiAndConfigParams): AuthenticateFulfillmentServiceMiddleware {
+  return function authenticateFulfillmentService() {
+    return [
+      express.text({type: '*/*', limit: '500kb'}),
+      async (req: Request, res: Response, next: NextFunction) => {
+        config.logger.info('Authenticating fulfillment service request');
+
+        let fulfillmentServiceRequest: FulfillmentServiceRequest | undefined;
+        if (req.method === 'POST') {
+          fulfillmentServiceRequest = await validateNotification(
+            api,
+            config,
+            req,
+            res,
+          );
+        } else if (req.method === 'GET' && callbackKind(req)) {
+          fulfillmentServiceRequest = await validateCallback(
+            api,
+            config,
+            req,
+            res,
+          );
+        } else {
+          config.logger.debug(
+            'Received an unsupported request for fulfillment service. Only POST requests and GET requests for ' +
+              'fetch_stock and fetch_tracking_numbers are allowed.',
+            {url: req.originalUrl, method: req.method},
+          );
+
+          res.status(405);
+          res.send('Method not allowed');
+          return undefined;
+        }
+
+        if (!fulfillmentServiceRequest) {
+          return undefined;
+        }
+
+        const {shop, payload} = fulfillmentServiceRequest;
+
+        config.logger.debug(
+          'Fulfillment service request is valid, looking for an offline session',
+          {shop},
+        );
+
+        const session = shop
+          ? await config.sessionStorage.loadSession(
+              api.session.getOfflineId(shop),
+            )
+          : undefined;
+
+        if (!session) {
+          config.logger.info(
+            'Fulfillment service request could not find session',
+            {shop},
+          );
+
+          res.status(400);
+          res.send('Bad Request');
+          return undefined;
+        }
+
+        config.logger.debug(
+          'Found a session for the fulfillment service request',
+          {shop},
+        );
+
+        const context: FulfillmentServiceContext = {
+          session,
+          payload,
+          admin: createAdminApiContext(api, session),
+        };
+
+        res.locals.shopify = {
+          ...res.locals.shopify,
+          ...context,
+        };
+
+        return next();
+      },
+    ];
+  };
+}
+
+/**
+ * Validates fulfillment order notifications, which Shopify POSTs with a JSON body signed in the HMAC header.
+ */
+async function validateNotification(
+  api: Shopify,
+  config: AppConfigInterface,
+  req: Request,
+  res: Response,
+): Promise<FulfillmentServiceRequest | undefined> {
+  const rawBody = typeof req.body === 'string' ? req.body : '';
+  const result = await api.fulfillmentService.validate({
+    rawBody,
+    rawRequest: req,
+    rawResponse: res,
+  });
+
+  if (!result.valid) {
+    config.logger.error('Received an invalid fulfillment service request', {
+      reason: result.reason,
+    });
+
+    res.status(401);
+    res.send('Unauthorized');
+    return undefined;
+  }
+
+  let payload: FulfillmentServicePayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch (error) {
+    config.logger.debug(
+      `Fulfillment service request body is not valid JSON: ${error}`,
+    );
+
+    res.status(400);
+    res.send('Bad Request');
+    return undefined;
+  }
+
+  return {
+    shop: api.utils.sanitizeShop(req.get(ShopifyHeader.Domain) ?? ''),
+    payload,
+  };
+}
+
+/**
+ * Validates the fetch_stock and fetch_tracking_numbers callbacks, which Shopify sends as GET requests with a signed
+ * query.
+ */
+async function validateCallback(
+  api: Shopify,
+  config: AppConfigInterface,
+  req: Request,
+  res: Response,
+): Promise<FulfillmentServiceRequest | undefined> {
+  const query = getQueryParams(req);
+
+  let valid = false;
+  try {
+    valid = await api.utils.validateHmac(query);
+  } catch (error) {
+    config.logger.debug(
+      `Failed to validate fulfillment service callback HMAC: ${error}`,
+    );
+  }
+
+  if (!valid) {
+    config.logger.error('Received an invalid fulfillment service callback', {
+      url: req.originalUrl,
+    });
+
+    res.status(401);
+    res.send('Unauthorized');
+    return undefined;
+  }
+
+  const shop = api.utils.sanitizeShop(query.shop ?? '');
+  const searchParams = new URL(req.originalUrl, 'https://localhost')
+    .searchParams;
+
+  if (callbackKind(req) === 'FETCH_STOCK') {
+    return {
+      shop,
+      payload: {
+        kind: 'FETCH_STOCK',
+        shop: shop || '',
+        sku: searchParams.get('sku') ?? undefined,
+      },
+    };
+  }
+
+  return {
+    shop,
+    payload: {
+      kind: 'FETCH_TRACKING_NUMBERS',
+      shop: shop || '',
+      orderNames: searchParams.getAll('order_names[]'),
+    },
+  };
+}
+
+function callbackKind(
+  req: Request,
+): 'FETCH_STOCK' | 'FETCH_TRACKING_NUMBERS' | undefined {
+  if (FETCH_STOCK_PATH.test(req.path)) {
+    return 'FETCH_STOCK';
+  } else if (FETCH_TRACKING_NUMBERS_PATH.test(req.path)) {
+    return 'FETCH_TRACKING_NUMBERS';
+  }
+
+  return undefined;
+}
@@ -0,0 +1,117 @@
+import {Request, Response, NextFunction} from 'express';
+import {JwtPayload, Shopify} from '@shopify/shopify-api';
+
+import {ApiAndConfigParams} from '../types';
+import {AppConfigInterface} from '../config-types';
+
+import {
+  getSessionTokenFromRequest,
+  RETRY_INVALID_SESSION_HEADER,
+} from './token-exchange';
+import {
+  AuthenticateExtensionMiddleware,
+  AuthenticatePublicMiddlewares,
+  ExtensionContext,
+} from './types';
+
+export function authenticatePublic({
+  api,
+  config,
+}: ApiAndConfigParams): AuthenticatePublicMiddlewares {
+  return {
+    checkout: authenticateExtensionFactory(api, config, 'checkout'),
+    customerAccount: authenticateExtensionFactory(
+      api,
+      config,
+      'customer account',
+    ),
+    pos: authenticateExtensionFactory(api, config, 'POS'),
+  };
+}
+
+function authenticateExtensionFactory(
+  api: Shopify,
+  config: AppConfigInterface,
+  requestType: string,
+): AuthenticateExtensionMiddleware {
+  return function authenticateExtension({corsHeaders = []} = {}) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      ensureCORSHeaders(api, config, req, res, corsHeaders);
+
+      if (req.method === 'OPTIONS') {
+        res.status(204);
+        res.header('Access-Control-Max-Age', '7200');
+        res.end();
+        return undefined;
+      }
+
+      config.logger.info(`Authenticating ${requestType} request`);
+
+      const sessionToken = getSessionTokenFromRequest(req);
+      if (!sessionToken) {
+        config.logger.debug('Request did not contain a session token');
+
+        res.status(401);
+        res.send('Unauthorized');
+        return undefined;
+      }
+
+      let payload: JwtPayload;
+      try {
+        payload = await api.session.decodeSessionToken(sessionToken, {
+          checkAudience: false,
+        });
+      } catch (error) {
+        config.logger.debug(
+          `Failed to validate session token: ${error.message}`,
+        );
+
+        res.status(401);
+        res.header(RETRY_INVALID_SESSION_HEADER, '1');
+        res.end();
+        return undefined;
+      }
+
+      config.logger.debug('Session token is valid', {
+        shop: payload.dest.replace(/^https:\/\//, ''),
+      });
+
+      const context: ExtensionContext = {sessionToken: payload};
+
+      res.locals.shopify = {
+        ...res.locals.shopify,
+        ...context,
+      };
+
+      return next();
+    };
+  };
+}
+
+function ensureCORSHeaders(
+  api: Shopify,
+  config: AppConfigInterface,
+  req: Request,
+  res: Response,
+  corsHeaders: string[],
+) {
+  const appUrl = `${api.config.hostScheme}://${api.config.hostName}`;
+  const origin = req.headers.origin;
+  if (!origin || origin === appUrl) {
+    return;
+  }
+
+  config.logger.debug(
+    'Request comes from a different origin, adding CORS headers',
+  );
+
+  const allowedHeaders = new Set([
+    'Authorization',
+    'Content-Type',
+    ...corsHeaders,
+  ]);
+
+  res.header('Access-Control-Allow-Origin', '*');
+  res.header('Access-Control-Allow-Headers', [...allowedHeaders].join(', '));
+  res.header('Access-Control-Expose-Headers', RETRY_INVALID_SESSION_HEADER);
+}
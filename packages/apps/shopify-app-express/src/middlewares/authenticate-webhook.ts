@@ -0,0 +1,97 @@
+import express, {Request, Response, NextFunction} from 'express';
+import {WebhookValidationErrorReason} from '@shopify/shopify-api';
+
+import {ApiAndConfigParams} from '../types';
+import {createAdminApiContext} from '../clients';
+
+import {AuthenticateWebhookMiddleware, WebhookContext} from './types';
+
+export function authenticateWebhook({
+  api,
+  config,
+}: ApiAndConfigParams): AuthenticateWebhookMiddleware {
+  return function authenticateWebhook() {
+    return [
+      express.text({type: '*/*', limit: '500kb'}),
+      async (req: Request, res: Response, next: NextFunction) => {
+        config.logger.info('Authenticating webhook request');
+
+        if (req.method !== 'POST') {
+          config.logger.debug(
+            'Received a non-POST request for a webhook. Only POST requests are allowed.',
+            {url: req.originalUrl, method: req.method},
+          );
+
+          res.status(405);
+          res.send('Method not allowed');
+          return undefined;
+        }
+
+        const rawBody = typeof req.body === 'string' ? req.body : '';
+        const check = await api.webhooks.validate({
+          rawBody,
+          rawRequest: req,
+          rawResponse: res,
+        });
+
+        if (!check.valid) {
+          config.logger.debug('Received an invalid webhook request', {
+            reason: check.reason,
+          });
+
+          if (check.reason === WebhookValidationErrorReason.InvalidHmac) {
+            res.status(401);
+            res.send('Unauthorized');
+          } else {
+            res.status(400);
+            res.send('Bad Request');
+          }
+          return undefined;
+        }
+
+        let payload: any;
+        try {
+          payload = JSON.parse(rawBody);
+        } catch (error) {
+          config.logger.debug(`Webhook body is not valid JSON: ${error}`, {
+            shop: check.domain,
+          });
+
+          res.status(400);
+          res.send('Bad Request');
+          return undefined;
+        }
+
+        const context: WebhookContext = {
+          topic: check.topic,
+          shop: check.domain,
+          webhookId: check.webhookId,
+          apiVersion: check.apiVersion,
+          subTopic: check.subTopic,
+          payload,
+        };
+
+        const sessionId = api.session.getOfflineId(check.domain);
+        const session = await config.sessionStorage.loadSession(sessionId);
+
+        // Webhooks can arrive after the app was uninstalled, so the session may be gone
+        if (session) {
+          context.session = session;
+          context.admin = createAdminApiContext(api, session);
+        } else {
+          config.logger.debug(
+            'Could not find offline session, proceeding without API clients',
+            {shop: check.domain},
+          );
+        }
+
+        res.locals.shopify = {
+          ...res.locals.shopify,
+          ...context,
+        };
+
+        return next();
+      },
+    ];
+  };
+}
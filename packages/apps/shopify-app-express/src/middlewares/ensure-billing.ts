@@ -0,0 +1,106 @@
+import {Request, Response, NextFunction} from 'express';
+import {Session} from '@shopify/shopify-api';
+
+import {ApiAndConfigParams} from '../types';
+import {redirectOutOfApp} from '../redirect-out-of-app';
+
+import {EnsureBillingMiddleware} from './types';
+
+interface RequestPaymentParams extends ApiAndConfigParams {
+  req: Request;
+  res: Response;
+  session: Session;
+}
+
+export function ensureBilling({
+  api,
+  config,
+}: ApiAndConfigParams): EnsureBillingMiddleware {
+  return function ensureBilling() {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      config.logger.debug('Running ensureBilling');
+
+      const session: Session | undefined = res.locals.shopify?.session;
+      if (!session) {
+        config.logger.error(
+          'ensureBilling did not find a session, make sure to call validateAuthenticatedSession before it',
+        );
+
+        res.status(500);
+        res.send('No session found');
+        return undefined;
+      }
+
+      try {
+        if (await requestPaymentIfRequired({req, res, api, config, session})) {
+          return undefined;
+        }
+      } catch (error) {
+        config.logger.error(`Failed to check billing: ${error}`, {
+          shop: session.shop,
+        });
+
+        res.status(500);
+        res.send(error.message);
+        return undefined;
+      }
+
+      return next();
+    };
+  };
+}
+
+/**
+ * Checks whether the shop has paid for any of the plans in `auth.checkBillingPlans`, and if not, redirects the
+ * merchant to confirm a charge for the first plan.
+ *
+ * Returns `true` if the merchant was redirected.
+ */
+export async function requestPaymentIfRequired({
+  req,
+  res,
+  api,
+  config,
+  session,
+}: RequestPaymentParams): Promise<boolean> {
+  const plans = config.auth.checkBillingPlans;
+  if (!plans?.length) {
+    return false;
+  }
+
+  config.logger.debug('Checking if shop has an active payment', {
+    shop: session.shop,
+    plans: plans.join(', '),
+  });
+
+  const {hasActivePayment} = await api.billing.check({
+    session,
+    plans,
+    isTest: config.auth.billingIsTest,
+    returnObject: true,
+  });
+
+  if (hasActivePayment) {
+    config.logger.debug('Shop has an active payment', {shop: session.shop});
+    return false;
+  }
+
+  config.logger.info(`Shop has no active payment, requesting ${plans[0]}`, {
+    shop: session.shop,
+  });
+
+  const confirmationUrl = await api.billing.request({
+    session,
+    plan: plans[0],
+    isTest: config.auth.billingIsTest,
+  });
+
+  redirectOutOfApp({api, config})({
+    req,
+    res,
+    redirectUri: confirmationUrl,
+    shop: session.shop,
+  });
+
+  return true;
+}
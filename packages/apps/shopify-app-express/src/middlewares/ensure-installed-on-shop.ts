@@ -10,6 +10,7 @@ import {EnsureInstalledMiddleware} from './types';
 import {addCSPHeader} from './csp-headers';
 import {validateAuthenticatedSession} from './validate-authenticated-session';
 import {hasValidAccessToken} from './has-valid-access-token';
+import {loadSessionWithTokenExchange} from './token-exchange';
 
 interface EnsureInstalledParams extends ApiAndConfigParams {}
 
@@ -34,6 +35,17 @@ export function ensureInstalled({
         return undefined;
       }
 
+      if (config.useTokenExchange) {
+        return ensureInstalledWithTokenExchange(
+          api,
+          config,
+          req,
+          res,
+          next,
+          shop,
+        );
+      }
+
       config.logger.debug('Checking if shop has installed the app', {shop});
 
       const sessionId = api.session.getOfflineId(shop);
@@ -72,6 +84,44 @@ export function ensureInstalled({
   };
 }
 
+async function ensureInstalledWithTokenExchange(
+  api: Shopify,
+  config: AppConfigInterface,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  shop: string,
+) {
+  if (req.query.embedded !== '1') {
+    const sessionId = api.session.getOfflineId(shop);
+    const session = await config.sessionStorage.loadSession(sessionId);
+
+    if (!session && !config.managedInstall) {
+      config.logger.debug(
+        'App installation was not found for shop, redirecting to auth',
+        {shop},
+      );
+
+      return redirectToAuth({req, res, api, config});
+    }
+
+    // With managed installation, Shopify installs the app, and we get tokens once it loads in the admin
+    await embedAppIntoShopify(api, config, req, res, shop);
+    return undefined;
+  }
+
+  const session = await loadSessionWithTokenExchange({req, res, api, config});
+  if (!session) {
+    return undefined;
+  }
+
+  addCSPHeader(api, req, res);
+
+  config.logger.debug('App is installed and ready to load', {shop});
+
+  return next();
+}
+
 export function deleteAppInstallationHandler(
   appInstallations: AppInstallations,
   config: AppConfigInterface,
@@ -133,7 +183,7 @@ async function sessionHasValidAccessToken(
   try {
     return (
       session.isActive(api.config.scopes) &&
-      (await hasValidAccessToken(api, session))
+      (await hasValidAccessToken(api, config, session))
     );
   } catch (error) {
     config.logger.error(`Could not check if session was valid: ${error}`, {
@@ -0,0 +1,19 @@
+import {Request} from 'express';
+import {AuthQuery} from '@shopify/shopify-api';
+
+/**
+ * Reads the query of a signed request the way Shopify signs it.
+ */
+export function getQueryParams(req: Request): AuthQuery {
+  // We can't use req.query because Express may parse params into objects, which would break the signature
+  const searchParams = new URL(req.originalUrl, 'https://localhost')
+    .searchParams;
+
+  // Shopify signs repeated params by joining their values with commas
+  const query: AuthQuery = {};
+  for (const key of new Set(searchParams.keys())) {
+    query[key] = searchParams.getAll(key).join(',');
+  }
+
+  return query;
+}
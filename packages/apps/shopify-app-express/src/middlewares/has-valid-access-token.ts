@@ -1,6 +1,17 @@
 import {HttpResponseError, Session, Shopify} from '@shopify/shopify-api';
 
-const TEST_GRAPHQL_QUERY = `query shopifyAppShopName {
+import {AppConfigInterface} from '../config-types';
+
+export const ACCESS_TOKEN_CHECK_OPERATION = 'shopifyAppShopName';
+
+/**
+ * The custom session property that holds the time of the last successful access token check, in milliseconds since
+ * the epoch.
+ */
+export const ACCESS_TOKEN_CHECKED_AT_PROPERTY =
+  'shopifyAppAccessTokenCheckedAt';
+
+const TEST_GRAPHQL_QUERY = `query ${ACCESS_TOKEN_CHECK_OPERATION} {
   shop {
     name
   }
@@ -8,12 +19,26 @@ const TEST_GRAPHQL_QUERY = `query shopifyAppShopName {
 
 export async function hasValidAccessToken(
   api: Shopify,
+  config: AppConfigInterface,
   session: Session,
 ): Promise<boolean> {
+  const {enabled, ttl} = config.accessTokenCheck;
+  if (!enabled) {
+    return true;
+  }
+
+  const checkedAt =
+    session.customProperties?.[ACCESS_TOKEN_CHECKED_AT_PROPERTY];
+  if (typeof checkedAt === 'number' && Date.now() - checkedAt < ttl * 1000) {
+    config.logger.debug('Access token was checked recently, skipping check', {
+      shop: session.shop,
+    });
+    return true;
+  }
+
   try {
     const client = new api.clients.Graphql({session});
     await client.request(TEST_GRAPHQL_QUERY);
-    return true;
   } catch (error) {
     if (error instanceof HttpResponseError && error.response.code === 401) {
       // Re-authenticate if we get a 401 response
@@ -22,4 +47,41 @@ export async function hasValidAccessToken(
       throw error;
     }
   }
+
+  if (ttl > 0) {
+    session.customProperties = {
+      ...session.customProperties,
+      [ACCESS_TOKEN_CHECKED_AT_PROPERTY]: Date.now(),
+    };
+    await config.sessionStorage.storeSession(session);
+  }
+
+  return true;
+}
+
+/**
+ * Removes the last successful access token check from the stored session, so the next authenticated request checks
+ * the token again.
+ */
+export async function clearAccessTokenCheck(
+  config: AppConfigInterface,
+  sessionId: string,
+): Promise<void> {
+  const session = await config.sessionStorage.loadSession(sessionId);
+  if (
+    !session?.customProperties ||
+    !(ACCESS_TOKEN_CHECKED_AT_PROPERTY in session.customProperties)
+  ) {
+    return;
+  }
+
+  config.logger.debug(
+    'Admin API request was unauthorized, clearing access token check',
+    {shop: session.shop},
+  );
+
+  const {[ACCESS_TOKEN_CHECKED_AT_PROPERTY]: _checkedAt, ...customProperties} =
+    session.customProperties;
+  session.customProperties = customProperties;
+  await config.sessionStorage.storeSession(session);
 }
@@ -5,6 +5,12 @@ import {
 } from './ensure-installed-on-shop';
 import {cspHeaders} from './csp-headers';
 import {redirectToShopifyOrAppRoot} from './redirect-to-shopify-or-app-root';
+import {ensureBilling} from './ensure-billing';
+import {authenticateAppProxy} from './authenticate-app-proxy';
+import {authenticateFlow} from './authenticate-flow';
+import {authenticateWebhook} from './authenticate-webhook';
+import {authenticateFulfillmentService} from './authenticate-fulfillment-service';
+import {authenticatePublic} from './authenticate-public';
 
 export {
   validateAuthenticatedSession,
@@ -12,4 +18,10 @@ export {
   cspHeaders,
   ensureInstalled,
   redirectToShopifyOrAppRoot,
+  ensureBilling,
+  authenticateAppProxy,
+  authenticateFlow,
+  authenticateWebhook,
+  authenticateFulfillmentService,
+  authenticatePublic,
 };
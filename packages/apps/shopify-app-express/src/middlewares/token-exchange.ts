@@ -0,0 +1,233 @@
+import {Request, Response} from 'express';
+import {
+  AuthScopes,
+  HttpResponseError,
+  InvalidJwtError,
+  JwtPayload,
+  RequestedTokenType,
+  Session,
+  Shopify,
+} from '@shopify/shopify-api';
+
+import {AppConfigInterface} from '../config-types';
+import {ApiAndConfigParams} from '../types';
+import {redirectOutOfApp} from '../redirect-out-of-app';
+import {registerWebhooks} from '../auth/auth-callback';
+import {
+  isNewInstall,
+  triggerAfterAuthHook,
+} from '../auth/trigger-after-auth-hook';
+
+import {addCSPHeader} from './csp-headers';
+import {hasValidAccessToken} from './has-valid-access-token';
+
+const SESSION_TOKEN_PARAM = 'id_token';
+const RELOAD_PARAM = 'shopify-reload';
+const APP_BRIDGE_URL = 'https://cdn.shopify.com/shopifycloud/app-bridge.js';
+export const RETRY_INVALID_SESSION_HEADER =
+  'X-Shopify-Retry-Invalid-Session-Request';
+
+interface TokenExchangeParams extends ApiAndConfigParams {
+  req: Request;
+  res: Response;
+}
+
+export function getSessionTokenFromRequest(req: Request): string | undefined {
+  const bearer = req.headers.authorization?.match(/^Bearer (.+)$/);
+  if (bearer) {
+    return bearer[1];
+  }
+
+  const searchParamToken = req.query[SESSION_TOKEN_PARAM];
+  return typeof searchParamToken === 'string' ? searchParamToken : undefined;
+}
+
+/**
+ * Returns the scopes sessions must have to be considered active. With managed installation, Shopify decides which
+ * scopes the app is granted, so any session returned by token exchange is accepted.
+ */
+function getRequiredScopes(
+  api: Shopify,
+  config: AppConfigInterface,
+): AuthScopes | undefined {
+  return config.managedInstall ? undefined : api.config.scopes;
+}
+
+/**
+ * Loads the session matching the request's session token, exchanging the token for new access tokens if there is no
+ * usable session in storage.
+ *
+ * Returns `undefined` if a response was already sent.
+ */
+export async function loadSessionWithTokenExchange({
+  req,
+  res,
+  api,
+  config,
+}: TokenExchangeParams): Promise<Session | undefined> {
+  if (typeof req.query[RELOAD_PARAM] === 'string') {
+    renderBouncePage(api, req, res);
+    return undefined;
+  }
+
+  const sessionToken = getSessionTokenFromRequest(req);
+  if (!sessionToken) {
+    config.logger.debug('Request does not contain a session token');
+
+    respondToInvalidSessionToken(api, config, req, res);
+    return undefined;
+  }
+
+  let payload: JwtPayload;
+  try {
+    payload = await api.session.decodeSessionToken(sessionToken);
+  } catch (error) {
+    config.logger.debug(`Failed to validate session token: ${error.message}`);
+
+    respondToInvalidSessionToken(api, config, req, res);
+    return undefined;
+  }
+
+  const shop = payload.dest.replace(/^https:\/\//, '');
+  if (
+    typeof req.query.shop === 'string' &&
+    api.utils.sanitizeShop(req.query.shop) !== shop
+  ) {
+    config.logger.info('Session token does not match the shop in the request', {
+      shop,
+      requestShop: req.query.shop,
+    });
+
+    res.status(401);
+    res.send('Session token does not match the shop');
+    return undefined;
+  }
+
+  const sessionId = config.useOnlineTokens
+    ? api.session.getJwtSessionId(shop, payload.sub)
+    : api.session.getOfflineId(shop);
+
+  try {
+    const session = await config.sessionStorage.loadSession(sessionId);
+
+    // Sessions with outdated scopes are exchanged again, since redirecting to OAuth would take the app out of the admin
+    if (
+      session?.isActive(getRequiredScopes(api, config)) &&
+      (await hasValidAccessToken(api, config, session))
+    ) {
+      config.logger.debug('Request session found and loaded', {shop});
+      return session;
+    }
+
+    const newSession = await exchangeToken(api, config, shop, sessionToken);
+    if (!newSession.isActive(getRequiredScopes(api, config))) {
+      // Token exchange can't grant new scopes, so the merchant needs to approve them through OAuth
+      const redirectUri = `${config.auth.path}?shop=${shop}`;
+      config.logger.info(
+        `Session scopes do not match the app's scopes after token exchange. Redirecting to ${redirectUri}`,
+        {shop},
+      );
+
+      redirectOutOfApp({api, config})({req, res, redirectUri, shop});
+      return undefined;
+    }
+
+    return newSession;
+  } catch (error) {
+    config.logger.error(`Token exchange failed: ${error}`, {shop});
+
+    if (
+      error instanceof InvalidJwtError ||
+      (error instanceof HttpResponseError &&
+        error.response.code === 400 &&
+        error.response.body?.error === 'invalid_subject_token')
+    ) {
+      respondToInvalidSessionToken(api, config, req, res);
+      return undefined;
+    }
+
+    res.status(500);
+    res.send(error.message);
+    return undefined;
+  }
+}
+
+async function exchangeToken(
+  api: Shopify,
+  config: AppConfigInterface,
+  shop: string,
+  sessionToken: string,
+): Promise<Session> {
+  config.logger.info('Requesting offline access token', {shop});
+
+  const {session: offlineSession} = await api.auth.tokenExchange({
+    shop,
+    sessionToken,
+    requestedTokenType: RequestedTokenType.OfflineAccessToken,
+  });
+
+  const newInstall = await isNewInstall(api, config, offlineSession);
+
+  await config.sessionStorage.storeSession(offlineSession);
+  await registerWebhooks(config, api, offlineSession);
+  await triggerAfterAuthHook(api, config, offlineSession, newInstall);
+
+  if (!config.useOnlineTokens) {
+    return offlineSession;
+  }
+
+  config.logger.info('Requesting online access token', {shop});
+
+  const {session: onlineSession} = await api.auth.tokenExchange({
+    shop,
+    sessionToken,
+    requestedTokenType: RequestedTokenType.OnlineAccessToken,
+  });
+
+  await config.sessionStorage.storeSession(onlineSession);
+  await triggerAfterAuthHook(api, config, onlineSession, false);
+
+  return onlineSession;
+}
+
+function respondToInvalidSessionToken(
+  api: Shopify,
+  config: AppConfigInterface,
+  req: Request,
+  res: Response,
+) {
+  if (req.headers.authorization) {
+    config.logger.debug(
+      'Session token is missing or invalid, asking App Bridge to retry the request',
+    );
+
+    res.status(401);
+    res.append('Access-Control-Expose-Headers', RETRY_INVALID_SESSION_HEADER);
+    res.header(RETRY_INVALID_SESSION_HEADER, '1');
+    res.end();
+    return;
+  }
+
+  // Document requests can't be retried by App Bridge, so we reload the page through the bounce page to get a new token
+  const appUrl = `${api.config.hostScheme}://${api.config.hostName}`;
+  const url = new URL(req.originalUrl, appUrl);
+  url.searchParams.delete(SESSION_TOKEN_PARAM);
+
+  const bounceUrl = new URL(url.pathname, appUrl);
+  bounceUrl.search = url.search;
+  bounceUrl.searchParams.set(RELOAD_PARAM, url.href);
+
+  config.logger.debug(
+    'Session token is missing or invalid, redirecting to bounce page',
+  );
+
+  res.redirect(`${bounceUrl.pathname}${bounceUrl.search}`);
+}
+
+function renderBouncePage(api: Shopify, req: Request, res: Response) {
+  addCSPHeader(api, req, res);
+  res.setHeader('Content-Type', 'text/html;charset=utf-8');
+  res.send(
+    `<script data-api-key="${api.config.apiKey}" src="${APP_BRIDGE_URL}"></script>`,
+  );
+}
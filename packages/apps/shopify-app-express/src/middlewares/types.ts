@@ -1,6 +1,202 @@
 import {RequestHandler} from 'express';
+import {JwtPayload, Session} from '@shopify/shopify-api';
+
+import {AdminApiContext, StorefrontApiContext} from '../clients/types';
 
 export type ValidateAuthenticatedSessionMiddleware = () => RequestHandler;
 export type EnsureInstalledMiddleware = () => RequestHandler;
 export type CspHeadersMiddleware = () => RequestHandler;
 export type RedirectToShopifyOrAppRootMiddleware = () => RequestHandler;
+export type EnsureBillingMiddleware = () => RequestHandler;
+export type AuthenticateAppProxyMiddleware = () => RequestHandler;
+
+export interface LiquidResponseOptions {
+  /**
+   * The HTTP status code for the response.
+   */
+  status?: number;
+  /**
+   * Whether the shop's theme layout should wrap the response.
+   */
+  layout?: boolean;
+}
+
+export type LiquidResponseFunction = (
+  body: string,
+  options?: LiquidResponseOptions,
+) => void;
+
+export interface AppProxyContext {
+  /**
+   * The shop the request came from.
+   */
+  shop: string;
+  /**
+   * The ID of the customer logged into the storefront, if any.
+   */
+  loggedInCustomerId?: string;
+  /**
+   * The shop's offline session, if the app is installed.
+   */
+  session?: Session;
+  /**
+   * Clients for the Admin API, if the app is installed.
+   */
+  admin?: AdminApiContext;
+  /**
+   * Clients for the Storefront API, if the app is installed.
+   */
+  storefront?: StorefrontApiContext;
+  /**
+   * Sends a Liquid response, which Shopify will render within the storefront.
+   */
+  liquid: LiquidResponseFunction;
+}
+
+export type AuthenticateFlowMiddleware = () => RequestHandler[];
+
+export interface FlowContext {
+  /**
+   * The offline session for the shop that triggered the Flow action.
+   */
+  session: Session;
+  /**
+   * The payload of the Flow action request.
+   */
+  payload: any;
+  /**
+   * Clients for the Admin API, authenticated with the shop's offline session.
+   */
+  admin: AdminApiContext;
+}
+
+export type AuthenticateWebhookMiddleware = () => RequestHandler[];
+
+export interface WebhookContext<Payload = any> {
+  /**
+   * The webhook topic, such as `PRODUCTS_CREATE`.
+   */
+  topic: string;
+  /**
+   * The shop that triggered the webhook.
+   */
+  shop: string;
+  /**
+   * The unique ID of the webhook, which is the same for every retry.
+   */
+  webhookId: string;
+  /**
+   * The API version used to create the payload.
+   */
+  apiVersion: string;
+  /**
+   * The webhook's sub-topic, if any.
+   */
+  subTopic?: string;
+  /**
+   * The parsed body of the webhook request.
+   */
+  payload: Payload;
+  /**
+   * The shop's offline session, if the app is still installed.
+   */
+  session?: Session;
+  /**
+   * Clients for the Admin API, if the app is still installed.
+   */
+  admin?: AdminApiContext;
+}
+
+export type AuthenticateFulfillmentServiceMiddleware = () => RequestHandler[];
+
+export interface FulfillmentOrderNotificationPayload {
+  /**
+   * The type of notification, which tells the app which fulfillment orders it should look for.
+   */
+  kind: 'FULFILLMENT_REQUEST' | 'CANCELLATION_REQUEST';
+}
+
+export interface FetchStockPayload {
+  /**
+   * Shopify is asking for the inventory levels the fulfillment service knows about.
+   */
+  kind: 'FETCH_STOCK';
+  /**
+   * The shop that sent the request.
+   */
+  shop: string;
+  /**
+   * The SKU to return the inventory level for. When it's missing, the app should return the levels for every SKU.
+   */
+  sku?: string;
+}
+
+export interface FetchTrackingNumbersPayload {
+  /**
+   * Shopify is asking for the tracking numbers of fulfillments handled by the fulfillment service.
+   */
+  kind: 'FETCH_TRACKING_NUMBERS';
+  /**
+   * The shop that sent the request.
+   */
+  shop: string;
+  /**
+   * The names of the orders to return tracking numbers for.
+   */
+  orderNames: string[];
+}
+
+export type FulfillmentServicePayload =
+  | FulfillmentOrderNotificationPayload
+  | FetchStockPayload
+  | FetchTrackingNumbersPayload;
+
+export interface FulfillmentServiceContext<
+  Payload extends FulfillmentServicePayload = FulfillmentServicePayload,
+> {
+  /**
+   * The offline session for the shop that sent the request.
+   */
+  session: Session;
+  /**
+   * The payload of the fulfillment service request.
+   */
+  payload: Payload;
+  /**
+   * Clients for the Admin API, authenticated with the shop's offline session.
+   */
+  admin: AdminApiContext;
+}
+
+export interface AuthenticateExtensionOptions {
+  /**
+   * Additional headers to allow in CORS requests, other than `Authorization` and `Content-Type`.
+   */
+  corsHeaders?: string[];
+}
+
+export type AuthenticateExtensionMiddleware = (
+  options?: AuthenticateExtensionOptions,
+) => RequestHandler;
+
+export interface AuthenticatePublicMiddlewares {
+  /**
+   * Authenticates requests coming from checkout UI extensions.
+   */
+  checkout: AuthenticateExtensionMiddleware;
+  /**
+   * Authenticates requests coming from customer account UI extensions.
+   */
+  customerAccount: AuthenticateExtensionMiddleware;
+  /**
+   * Authenticates requests coming from POS UI extensions.
+   */
+  pos: AuthenticateExtensionMiddleware;
+}
+
+export interface ExtensionContext {
+  /**
+   * The decoded and validated session token for the request.
+   */
+  sessionToken: JwtPayload;
+}
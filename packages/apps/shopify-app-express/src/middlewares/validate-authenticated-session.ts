@@ -3,10 +3,13 @@ import {Request, Response, NextFunction} from 'express';
 
 import {redirectToAuth} from '../redirect-to-auth';
 import {ApiAndConfigParams} from '../types';
+import {AppConfigInterface} from '../config-types';
 import {redirectOutOfApp} from '../redirect-out-of-app';
+import {createScopesApiContext} from '../scopes';
 
 import {ValidateAuthenticatedSessionMiddleware} from './types';
 import {hasValidAccessToken} from './has-valid-access-token';
+import {loadSessionWithTokenExchange} from './token-exchange';
 
 interface validateAuthenticatedSessionParams extends ApiAndConfigParams {}
 
@@ -18,6 +21,10 @@ export function validateAuthenticatedSession({
     return async (req: Request, res: Response, next: NextFunction) => {
       config.logger.debug('Running validateAuthenticatedSession');
 
+      if (config.useTokenExchange) {
+        return validateWithTokenExchange(api, config, req, res, next);
+      }
+
       let sessionId: string | undefined;
       try {
         sessionId = await api.session.getCurrentId({
@@ -71,7 +78,7 @@ export function validateAuthenticatedSession({
             shop: session.shop,
           });
 
-          if (await hasValidAccessToken(api, session)) {
+          if (await hasValidAccessToken(api, config, session)) {
             config.logger.debug('Request session has a valid access token', {
               shop: session.shop,
             });
@@ -79,6 +86,7 @@ export function validateAuthenticatedSession({
             res.locals.shopify = {
               ...res.locals.shopify,
               session,
+              scopes: createScopesApiContext({req, res, api, config, session}),
             };
             return next();
           }
@@ -112,6 +120,30 @@ export function validateAuthenticatedSession({
   };
 }
 
+async function validateWithTokenExchange(
+  api: Shopify,
+  config: AppConfigInterface,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const session = await loadSessionWithTokenExchange({req, res, api, config});
+  if (!session) {
+    return undefined;
+  }
+
+  config.logger.debug('Request session is active and valid', {
+    shop: session.shop,
+  });
+
+  res.locals.shopify = {
+    ...res.locals.shopify,
+    session,
+    scopes: createScopesApiContext({req, res, api, config, session}),
+  };
+  return next();
+}
+
 function handleSessionError(_req: Request, res: Response, error: Error) {
   switch (true) {
     case error instanceof InvalidJwtError:
@@ -0,0 +1,181 @@
+import request from 'supertest';
+import express, {Express} from 'express';
+import {Session} from '@shopify/shopify-api';
+import jwt from 'jsonwebtoken';
+
+import {
+  mockShopifyResponses,
+  shopify,
+  TEST_SHOP,
+} from '../../__tests__/test-helper';
+
+const SHOP_NAME_RESPONSE = {data: {shop: {name: TEST_SHOP}}};
+
+const SCOPES_DETAIL_RESPONSE = {
+  data: {
+    app: {
+      requestedAccessScopes: [{handle: 'read_orders'}],
+      optionalAccessScopes: [
+        {handle: 'write_products'},
+        {handle: 'read_customers'},
+      ],
+      installation: {
+        accessScopes: [{handle: 'read_orders'}, {handle: 'write_products'}],
+      },
+    },
+  },
+};
+
+describe('scopes', () => {
+  let app: Express;
+  let validJWT: string;
+  let session: Session;
+
+  beforeEach(async () => {
+    shopify.config.useTokenExchange = true;
+    shopify.api.config.isEmbeddedApp = true;
+    shopify.config.managedInstall = true;
+
+    validJWT = jwt.sign(
+      {
+        aud: shopify.api.config.apiKey,
+        dest: `https://${TEST_SHOP}`,
+        sub: '12345',
+      },
+      shopify.api.config.apiSecretKey,
+      {algorithm: 'HS256'},
+    );
+
+    session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '',
+      isOnline: false,
+      scope: 'read_orders,write_products',
+      accessToken: 'offline-access-token',
+    });
+    await shopify.config.sessionStorage.storeSession(session);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/*', shopify.validateAuthenticatedSession());
+    app.get('/api/scopes', async (_req, res) => {
+      res.json(await res.locals.shopify.scopes.query());
+    });
+    app.post('/api/scopes/request', async (req, res) => {
+      if (await res.locals.shopify.scopes.request(req.body.scopes)) {
+        return;
+      }
+
+      res.send('Already granted');
+    });
+    app.post('/api/scopes/revoke', async (req, res) => {
+      try {
+        res.json(await res.locals.shopify.scopes.revoke(req.body.scopes));
+      } catch (error) {
+        res.status(422).json(error.userErrors);
+      }
+    });
+  });
+
+  it('queries the scopes for the app', async () => {
+    mockShopifyResponses([SHOP_NAME_RESPONSE], [SCOPES_DETAIL_RESPONSE]);
+
+    const response = await request(app)
+      .get('/api/scopes')
+      .set('Authorization', `Bearer ${validJWT}`)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      granted: ['read_orders', 'write_products'],
+      required: ['read_orders'],
+      optional: ['write_products', 'read_customers'],
+    });
+  });
+
+  it('redirects to the install page to request new scopes', async () => {
+    mockShopifyResponses([SHOP_NAME_RESPONSE], [SCOPES_DETAIL_RESPONSE]);
+
+    const response = await request(app)
+      .post('/api/scopes/request')
+      .set('Authorization', `Bearer ${validJWT}`)
+      .send({scopes: ['read_customers']})
+      .expect(403);
+
+    const installUrl = new URL(
+      response.headers['x-shopify-api-request-failure-reauthorize-url'],
+    );
+    expect(installUrl.host).toEqual(TEST_SHOP);
+    expect(installUrl.pathname).toEqual('/admin/oauth/install');
+    expect(installUrl.searchParams.get('client_id')).toEqual(
+      shopify.api.config.apiKey,
+    );
+    expect(installUrl.searchParams.get('optional_scopes')).toEqual(
+      'read_customers',
+    );
+  });
+
+  it('does not redirect if the scopes were already granted', async () => {
+    mockShopifyResponses([SHOP_NAME_RESPONSE], [SCOPES_DETAIL_RESPONSE]);
+
+    const response = await request(app)
+      .post('/api/scopes/request')
+      .set('Authorization', `Bearer ${validJWT}`)
+      .send({scopes: ['write_products']})
+      .expect(200);
+
+    expect(response.text).toEqual('Already granted');
+  });
+
+  it('revokes scopes and updates the session', async () => {
+    mockShopifyResponses(
+      [SHOP_NAME_RESPONSE],
+      [
+        {
+          data: {
+            appRevokeAccessScopes: {
+              revoked: [{handle: 'write_products'}],
+              userErrors: [],
+            },
+          },
+        },
+      ],
+    );
+
+    const response = await request(app)
+      .post('/api/scopes/revoke')
+      .set('Authorization', `Bearer ${validJWT}`)
+      .send({scopes: ['write_products']})
+      .expect(200);
+
+    expect(response.body).toEqual({revoked: ['write_products']});
+
+    const storedSession = await shopify.config.sessionStorage.loadSession(
+      session.id,
+    );
+    expect(storedSession?.scope).toEqual('read_orders');
+  });
+
+  it('throws an error if the scopes cannot be revoked', async () => {
+    const userErrors = [
+      {field: 'scopes', message: 'Cannot revoke required scopes'},
+    ];
+    mockShopifyResponses(
+      [SHOP_NAME_RESPONSE],
+      [{data: {appRevokeAccessScopes: {revoked: [], userErrors}}}],
+    );
+
+    const response = await request(app)
+      .post('/api/scopes/revoke')
+      .set('Authorization', `Bearer ${validJWT}`)
+      .send({scopes: ['read_orders']})
+      .expect(422);
+
+    expect(response.body).toEqual(userErrors);
+
+    const storedSession = await shopify.config.sessionStorage.loadSession(
+      session.id,
+    );
+    expect(storedSession?.scope).toEqual('read_orders,write_products');
+  });
+});
@@ -0,0 +1,167 @@
+import {Request, Response} from 'express';
+import {AuthScopes, Session} from '@shopify/shopify-api';
+
+import {ApiAndConfigParams} from '../types';
+import {AdminApiContext} from '../clients/types';
+import {createAdminApiContext} from '../clients';
+import {redirectOutOfApp} from '../redirect-out-of-app';
+import {RevokeScopesError, ShopifyAppError} from '../error';
+
+import {ScopesApiContext, ScopesDetail} from './types';
+
+interface ScopesApiParams extends ApiAndConfigParams {
+  req: Request;
+  res: Response;
+  session: Session;
+}
+
+interface FetchScopesDetailResponse {
+  app: {
+    requestedAccessScopes: {handle: string}[];
+    optionalAccessScopes: {handle: string}[];
+    installation: {accessScopes: {handle: string}[]};
+  };
+}
+
+interface RevokeScopesResponse {
+  appRevokeAccessScopes: {
+    revoked: {handle: string}[];
+    userErrors: {field: string; message: string}[];
+  };
+}
+
+const FETCH_SCOPES_DETAIL_QUERY = `#graphql
+query FetchAccessScopes {
+  app {
+    requestedAccessScopes {
+      handle
+    }
+    optionalAccessScopes {
+      handle
+    }
+    installation {
+      accessScopes {
+        handle
+      }
+    }
+  }
+}`;
+
+const REVOKE_SCOPES_MUTATION = `#graphql
+mutation AppRevokeAccessScopes($scopes: [String!]!) {
+  appRevokeAccessScopes(scopes: $scopes) {
+    revoked {
+      handle
+    }
+    userErrors {
+      field
+      message
+    }
+  }
+}`;
+
+export function createScopesApiContext({
+  req,
+  res,
+  api,
+  config,
+  session,
+}: ScopesApiParams): ScopesApiContext {
+  const admin = createAdminApiContext(api, session);
+
+  return {
+    query: async () => {
+      config.logger.debug('Querying scopes details', {shop: session.shop});
+
+      return fetchScopesDetail(admin);
+    },
+    request: async (scopes) => {
+      config.logger.debug('Requesting optional scopes', {
+        shop: session.shop,
+        scopes: scopes.join(','),
+      });
+
+      if (scopes.length === 0) {
+        return false;
+      }
+
+      const {granted} = await fetchScopesDetail(admin);
+      if (new AuthScopes(granted).has(scopes)) {
+        config.logger.debug('Scopes were already granted', {
+          shop: session.shop,
+        });
+        return false;
+      }
+
+      const installUrl = new URL(`https://${session.shop}/admin/oauth/install`);
+      installUrl.searchParams.set('client_id', api.config.apiKey);
+      installUrl.searchParams.set('scope', api.config.scopes?.toString() ?? '');
+      installUrl.searchParams.set('optional_scopes', scopes.join(','));
+
+      redirectOutOfApp({api, config})({
+        req,
+        res,
+        redirectUri: installUrl.href,
+        shop: session.shop,
+      });
+
+      return true;
+    },
+    revoke: async (scopes) => {
+      if (scopes.length === 0) {
+        throw new ShopifyAppError('No scopes provided');
+      }
+
+      config.logger.debug('Revoking scopes', {
+        shop: session.shop,
+        scopes: scopes.join(','),
+      });
+
+      const response = await admin.graphql.request<RevokeScopesResponse>(
+        REVOKE_SCOPES_MUTATION,
+        {variables: {scopes}},
+      );
+      const {revoked, userErrors} = response.data!.appRevokeAccessScopes;
+
+      if (userErrors.length > 0) {
+        config.logger.error('Failed to revoke scopes', {
+          shop: session.shop,
+          errors: JSON.stringify(userErrors),
+        });
+
+        throw new RevokeScopesError('Failed to revoke scopes', userErrors);
+      }
+
+      const revokedHandles = revoked.map((scope) => scope.handle);
+      const remainingScopes = new AuthScopes(session.scope)
+        .toArray(true)
+        .filter((scope) => !revokedHandles.includes(scope));
+
+      session.scope = new AuthScopes(remainingScopes).toString();
+      await config.sessionStorage.storeSession(session);
+
+      return {revoked: revokedHandles};
+    },
+  };
+}
+
+async function fetchScopesDetail(
+  admin: AdminApiContext,
+): Promise<ScopesDetail> {
+  const response = await admin.graphql.request<FetchScopesDetailResponse>(
+    FETCH_SCOPES_DETAIL_QUERY,
+  );
+  const {app} = response.data!;
+
+  return {
+    granted: new AuthScopes(
+      app.installation.accessScopes.map((scope) => scope.handle),
+    ).toArray(true),
+    required: new AuthScopes(
+      app.requestedAccessScopes.map((scope) => scope.handle),
+    ).toArray(true),
+    optional: new AuthScopes(
+      app.optionalAccessScopes.map((scope) => scope.handle),
+    ).toArray(true),
+  };
+}
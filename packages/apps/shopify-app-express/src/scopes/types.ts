@@ -0,0 +1,43 @@
+/**
+ * An [access scope](https://shopify.dev/docs/api/usage/access-scopes) handle, like `write_products` or `read_orders`.
+ */
+export type Scope = string;
+
+export interface ScopesDetail {
+  /**
+   * The scopes that have been granted on the shop for this app.
+   */
+  granted: Scope[];
+  /**
+   * The required scopes that the app has declared in its configuration.
+   */
+  required: Scope[];
+  /**
+   * The optional scopes that the app has declared in its configuration.
+   */
+  optional: Scope[];
+}
+
+export interface ScopesRevokeResponse {
+  /**
+   * The scopes that have been revoked on the shop for this app.
+   */
+  revoked: Scope[];
+}
+
+export interface ScopesApiContext {
+  /**
+   * Queries Shopify for the scopes for this app on the current shop.
+   */
+  query: () => Promise<ScopesDetail>;
+  /**
+   * Redirects the merchant to grant the given scopes, if they haven't been granted yet.
+   *
+   * Returns `true` if the merchant was redirected, in which case a response was already sent.
+   */
+  request: (scopes: Scope[]) => Promise<boolean>;
+  /**
+   * Revokes the given optional scopes for this app on the current shop, and updates the session in storage.
+   */
+  revoke: (scopes: Scope[]) => Promise<ScopesRevokeResponse>;
+}
@@ -0,0 +1,209 @@
+import request from 'supertest';
+import express, {Express, Request, Response} from 'express';
+
+import {shopifyApp, ShopifyApp} from '../..';
+import {
+  getSessionToken,
+  mockAdminApi,
+  MockAdminApi,
+  signedAppProxyQuery,
+  signedFlowRequest,
+  signedFulfillmentServiceRequest,
+  signedWebhookRequest,
+  testConfig,
+  testSessionStorage,
+  TEST_SHOP,
+  unauthorizedResponse,
+} from '..';
+
+describe('test helpers', () => {
+  let shopify: ShopifyApp;
+  let app: Express;
+  let adminApi: MockAdminApi;
+
+  beforeEach(async () => {
+    adminApi = mockAdminApi();
+
+    shopify = shopifyApp(
+      testConfig({
+        api: {logger: {log: jest.fn()}},
+        sessionStorage: await testSessionStorage(),
+      }),
+    );
+
+    app = express();
+  });
+
+  afterEach(() => {
+    adminApi.uninstall();
+  });
+
+  it('signs webhook requests', async () => {
+    app.use('/webhooks/*', shopify.authenticateWebhook());
+    app.post('/webhooks/products/create', (_req: Request, res: Response) => {
+      res.json({
+        topic: res.locals.shopify.topic,
+        shop: res.locals.shopify.shop,
+        payload: res.locals.shopify.payload,
+        hasSession: Boolean(res.locals.shopify.session),
+      });
+    });
+
+    const {headers, body} = signedWebhookRequest({
+      topic: 'products/create',
+      payload: {id: 1},
+    });
+
+    const response = await request(app)
+      .post('/webhooks/products/create')
+      .set(headers)
+      .send(body)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      topic: 'PRODUCTS_CREATE',
+      shop: TEST_SHOP,
+      payload: {id: 1},
+      hasSession: true,
+    });
+  });
+
+  it('signs Flow requests', async () => {
+    app.post(
+      '/flow',
+      shopify.authenticateFlow(),
+      (_req: Request, res: Response) => {
+        res.json(res.locals.shopify.payload);
+      },
+    );
+
+    const {headers, body} = signedFlowRequest({
+      payload: {handle: 'my-action'},
+    });
+
+    const response = await request(app)
+      .post('/flow')
+      .set(headers)
+      .send(body)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      shopify_domain: TEST_SHOP,
+      handle: 'my-action',
+    });
+  });
+
+  it('signs fulfillment service requests', async () => {
+    app.post(
+      '/fulfillment_order_notification',
+      shopify.authenticateFulfillmentService(),
+      (_req: Request, res: Response) => {
+        res.json(res.locals.shopify.payload);
+      },
+    );
+
+    const {headers, body} = signedFulfillmentServiceRequest();
+
+    const response = await request(app)
+      .post('/fulfillment_order_notification')
+      .set(headers)
+      .send(body)
+      .expect(200);
+
+    expect(response.body).toEqual({kind: 'FULFILLMENT_REQUEST'});
+  });
+
+  it('signs app proxy queries', async () => {
+    app.get(
+      '/proxy',
+      shopify.authenticateAppProxy(),
+      (_req: Request, res: Response) => {
+        res.json({
+          shop: res.locals.shopify.shop,
+          loggedInCustomerId: res.locals.shopify.loggedInCustomerId,
+        });
+      },
+    );
+
+    const query = signedAppProxyQuery({
+      loggedInCustomerId: '1234',
+      params: {extra: ['1', '2']},
+    });
+
+    const response = await request(app).get(`/proxy?${query}`).expect(200);
+
+    expect(response.body).toEqual({
+      shop: TEST_SHOP,
+      loggedInCustomerId: '1234',
+    });
+  });
+
+  it('creates session tokens for the seeded sessions', async () => {
+    app.get(
+      '/api/shop',
+      shopify.validateAuthenticatedSession(),
+      (_req: Request, res: Response) => {
+        res.json({session: res.locals.shopify.session.id});
+      },
+    );
+
+    const response = await request(app)
+      .get('/api/shop')
+      .set('Authorization', `Bearer ${getSessionToken()}`)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      session: shopify.api.session.getOfflineId(TEST_SHOP),
+    });
+    adminApi.assertOperationSent('shopifyAppShopName');
+  });
+
+  it('answers Admin API requests from routes', async () => {
+    adminApi.graphql('productTitle', {
+      body: {data: {product: {title: 'Test product'}}},
+    });
+
+    app.get(
+      '/api/product',
+      shopify.validateAuthenticatedSession(),
+      async (_req: Request, res: Response) => {
+        const client = new shopify.api.clients.Graphql({
+          session: res.locals.shopify.session,
+        });
+        const {data} = await client.request(
+          `query productTitle { product(id: "gid://shopify/Product/1") { title } }`,
+        );
+
+        res.json(data);
+      },
+    );
+
+    const response = await request(app)
+      .get('/api/product')
+      .set('Authorization', `Bearer ${getSessionToken()}`)
+      .expect(200);
+
+    expect(response.body).toEqual({product: {title: 'Test product'}});
+    expect(adminApi.operations()).toEqual([
+      'shopifyAppShopName',
+      'productTitle',
+    ]);
+  });
+
+  it('simulates revoked access tokens', async () => {
+    adminApi.graphql('shopifyAppShopName', unauthorizedResponse(), {times: 1});
+
+    app.get(
+      '/api/shop',
+      shopify.validateAuthenticatedSession(),
+      (_req: Request, res: Response) => {
+        res.send('OK');
+      },
+    );
+
+    await request(app)
+      .get('/api/shop')
+      .set('Authorization', `Bearer ${getSessionToken()}`)
+      .expect(403);
+  });
+});
@@ -0,0 +1,17 @@
+import {MockAdminApi} from '@shopify/shopify-api/test-helpers';
+
+import {ACCESS_TOKEN_CHECK_OPERATION} from '../middlewares/has-valid-access-token';
+
+/**
+ * Creates a mock Admin API and sends all of the app's Admin API requests to it.
+ *
+ * The query that checks whether access tokens are valid succeeds by default, so that requests with a valid session
+ * pass `validateAuthenticatedSession`.
+ */
+export function mockAdminApi(): MockAdminApi {
+  return new MockAdminApi()
+    .graphql(ACCESS_TOKEN_CHECK_OPERATION, {
+      body: {data: {shop: {name: 'Test shop'}}},
+    })
+    .install();
+}
@@ -0,0 +1,38 @@
+export {testConfig} from './test-config';
+export type {TestConfigOverrides} from './test-config';
+export {testSessionStorage} from './session-storage';
+export type {TestSessionStorageOptions} from './session-storage';
+export {mockAdminApi} from './admin-api';
+export {getSessionToken} from './session-token';
+export type {TestSessionTokenOptions} from './session-token';
+export {
+  signedWebhookRequest,
+  signedFlowRequest,
+  signedFulfillmentServiceRequest,
+  signedAppProxyQuery,
+} from './requests';
+export type {
+  SignedRequest,
+  SignedWebhookRequestOptions,
+  SignedFlowRequestOptions,
+  SignedFulfillmentServiceRequestOptions,
+  SignedAppProxyQueryOptions,
+} from './requests';
+export {
+  API_KEY,
+  API_SECRET_KEY,
+  APP_URL,
+  TEST_SHOP,
+  USER_ID,
+  MockAdminApi,
+  unauthorizedResponse,
+  rateLimitedResponse,
+  throttledGraphqlResponse,
+  serverErrorResponse,
+} from '@shopify/shopify-api/test-helpers';
+export type {
+  MockAdminApiResponse,
+  MockAdminApiRequest,
+  MockAdminApiFixture,
+  MockAdminApiFixtureOptions,
+} from '@shopify/shopify-api/test-helpers';
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+
+import {LATEST_API_VERSION, ShopifyHeader} from '@shopify/shopify-api';
+import {
+  API_SECRET_KEY,
+  getHmac,
+  TEST_SHOP,
+} from '@shopify/shopify-api/test-helpers';
+
+import {FulfillmentOrderNotificationPayload} from '../middlewares/types';
+
+export interface SignedRequest {
+  /**
+   * The headers to set on the request, including the HMAC signature.
+   */
+  headers: Record<string, string>;
+  /**
+   * The raw body to send. It must be sent as is, because the signature is computed from it.
+   */
+  body: string;
+}
+
+interface SignedRequestOptions {
+  /**
+   * The shop the request comes from. Defaults to `TEST_SHOP`.
+   */
+  shop?: string;
+  /**
+   * Defaults to the API secret key in `testConfig`.
+   */
+  apiSecretKey?: string;
+}
+
+export interface SignedWebhookRequestOptions extends SignedRequestOptions {
+  /**
+   * The topic as Shopify sends it, such as `products/create`.
+   */
+  topic: string;
+  payload: Record<string, any>;
+  /**
+   * Defaults to a random ID, so the webhook isn't treated as a duplicate.
+   */
+  webhookId?: string;
+  /**
+   * Defaults to the latest API version.
+   */
+  apiVersion?: string;
+  subTopic?: string;
+}
+
+/**
+ * Creates a webhook request, signed the same way as the webhooks Shopify sends.
+ */
+export function signedWebhookRequest({
+  topic,
+  payload,
+  shop = TEST_SHOP,
+  webhookId = crypto.randomUUID(),
+  apiVersion = LATEST_API_VERSION,
+  subTopic,
+  apiSecretKey = API_SECRET_KEY,
+}: SignedWebhookRequestOptions): SignedRequest {
+  const body = JSON.stringify(payload);
+
+  return {
+    headers: {
+      'Content-Type': 'application/json',
+      [ShopifyHeader.Topic]: topic,
+      [ShopifyHeader.Domain]: shop,
+      [ShopifyHeader.WebhookId]: webhookId,
+      [ShopifyHeader.ApiVersion]: apiVersion,
+      ...(subTopic ? {[ShopifyHeader.SubTopic]: subTopic} : {}),
+      [ShopifyHeader.Hmac]: getHmac(body, apiSecretKey),
+    },
+    body,
+  };
+}
+
+export interface SignedFlowRequestOptions extends SignedRequestOptions {
+  /**
+   * The Flow action payload. `shopify_domain` defaults to the shop.
+   */
+  payload?: Record<string, any>;
+}
+
+/**
+ * Creates a Shopify Flow action request, for routes using `authenticateFlow`.
+ */
+export function signedFlowRequest({
+  payload = {},
+  shop = TEST_SHOP,
+  apiSecretKey = API_SECRET_KEY,
+}: SignedFlowRequestOptions = {}): SignedRequest {
+  const body = JSON.stringify({shopify_domain: shop, ...payload});
+
+  return {
+    headers: {
+      'Content-Type': 'application/json',
+      [ShopifyHeader.Hmac]: getHmac(body, apiSecretKey),
+    },
+    body,
+  };
+}
+
+export interface SignedFulfillmentServiceRequestOptions
+  extends SignedRequestOptions {
+  /**
+   * The notification payload. Defaults to a `FULFILLMENT_REQUEST` notification.
+   */
+  payload?: FulfillmentOrderNotificationPayload;
+}
+
+/**
+ * Creates a fulfillment order notification request, for routes using `authenticateFulfillmentService`.
+ */
+export function signedFulfillmentServiceRequest({
+  payload = {kind: 'FULFILLMENT_REQUEST'},
+  shop = TEST_SHOP,
+  apiSecretKey = API_SECRET_KEY,
+}: SignedFulfillmentServiceRequestOptions = {}): SignedRequest {
+  const body = JSON.stringify(payload);
+
+  return {
+    headers: {
+      'Content-Type': 'application/json',
+      [ShopifyHeader.Domain]: shop,
+      [ShopifyHeader.Hmac]: getHmac(body, apiSecretKey),
+    },
+    body,
+  };
+}
+
+export interface SignedAppProxyQueryOptions extends SignedRequestOptions {
+  /**
+   * The ID of the customer logged into the storefront, if any.
+   */
+  loggedInCustomerId?: string;
+  /**
+   * The app proxy's path on the storefront. Defaults to `/apps/proxy`.
+   */
+  pathPrefix?: string;
+  /**
+   * Additional query parameters sent by the storefront.
+   */
+  params?: Record<string, string | string[]>;
+}
+
+/**
+ * Creates the signed query string Shopify adds to app proxy requests, for routes using `authenticateAppProxy`.
+ */
+export function signedAppProxyQuery({
+  loggedInCustomerId = '',
+  pathPrefix = '/apps/proxy',
+  params = {},
+  shop = TEST_SHOP,
+  apiSecretKey = API_SECRET_KEY,
+}: SignedAppProxyQueryOptions = {}): URLSearchParams {
+  const allParams: Record<string, string | string[]> = {
+    shop,
+    logged_in_customer_id: loggedInCustomerId,
+    path_prefix: pathPrefix,
+    timestamp: Math.trunc(Date.now() / 1000).toString(),
+    ...params,
+  };
+
+  // Shopify signs repeated params by joining their values with commas
+  const message = Object.entries(allParams)
+    .sort(([key1], [key2]) => key1.localeCompare(key2))
+    .map(
+      ([key, value]) =>
+        `${key}=${Array.isArray(value) ? value.join(',') : value}`,
+    )
+    .join('');
+
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(allParams)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(key, item);
+    }
+  }
+  query.set(
+    'signature',
+    crypto.createHmac('sha256', apiSecretKey).update(message).digest('hex'),
+  );
+
+  return query;
+}
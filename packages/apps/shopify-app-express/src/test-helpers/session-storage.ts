@@ -0,0 +1,42 @@
+import {Session} from '@shopify/shopify-api';
+import {setUpValidSession, TEST_SHOP} from '@shopify/shopify-api/test-helpers';
+import {MemorySessionStorage} from '@shopify/shopify-app-session-storage-memory';
+
+export interface TestSessionStorageOptions {
+  /**
+   * The shop to create an offline session for. Defaults to `TEST_SHOP`.
+   */
+  shop?: string;
+  /**
+   * Whether to also create an online session for the user in test session tokens. Defaults to `false`.
+   */
+  online?: boolean;
+  /**
+   * Additional sessions to store.
+   */
+  sessions?: Session[];
+}
+
+/**
+ * Creates a memory session storage containing valid sessions for the test shop, so that requests with a test session
+ * token are authenticated.
+ */
+export async function testSessionStorage({
+  shop = TEST_SHOP,
+  online = false,
+  sessions = [],
+}: TestSessionStorageOptions = {}): Promise<MemorySessionStorage> {
+  const sessionStorage = new MemorySessionStorage();
+
+  const seededSessions = [
+    setUpValidSession({shop}),
+    ...(online ? [setUpValidSession({shop, isOnline: true})] : []),
+    ...sessions,
+  ];
+
+  for (const session of seededSessions) {
+    await sessionStorage.storeSession(session);
+  }
+
+  return sessionStorage;
+}
@@ -0,0 +1,44 @@
+import {JwtPayload} from '@shopify/shopify-api';
+import {
+  API_KEY,
+  API_SECRET_KEY,
+  getJwt,
+  TEST_SHOP,
+} from '@shopify/shopify-api/test-helpers';
+
+export interface TestSessionTokenOptions {
+  /**
+   * The shop the token is for. Defaults to `TEST_SHOP`.
+   */
+  shop?: string;
+  /**
+   * Defaults to the API key in `testConfig`.
+   */
+  apiKey?: string;
+  /**
+   * Defaults to the API secret key in `testConfig`.
+   */
+  apiSecretKey?: string;
+  /**
+   * Overrides for the token's payload.
+   */
+  payload?: Partial<JwtPayload>;
+}
+
+/**
+ * Creates a signed session token, like the ones App Bridge sends in the `Authorization` header.
+ */
+export function getSessionToken({
+  shop = TEST_SHOP,
+  apiKey = API_KEY,
+  apiSecretKey = API_SECRET_KEY,
+  payload = {},
+}: TestSessionTokenOptions = {}): string {
+  const {token} = getJwt(shop, apiKey, apiSecretKey, {
+    iss: `https://${shop}/admin`,
+    dest: `https://${shop}`,
+    ...payload,
+  });
+
+  return token;
+}
@@ -0,0 +1,51 @@
+import {LATEST_API_VERSION, ShopifyRestResources} from '@shopify/shopify-api';
+import {SessionStorage} from '@shopify/shopify-app-session-storage';
+import {
+  API_KEY,
+  API_SECRET_KEY,
+  APP_URL,
+} from '@shopify/shopify-api/test-helpers';
+
+import type {AppConfigParams} from '../config-types';
+
+export type TestConfigOverrides<
+  Resources extends ShopifyRestResources = ShopifyRestResources,
+  Storage extends SessionStorage = SessionStorage,
+> = Partial<AppConfigParams<Resources, Storage>>;
+
+/**
+ * Returns a configuration for `shopifyApp` that works with the other test helpers, with the given overrides.
+ *
+ * The `api` overrides are merged with the default API configuration.
+ */
+export function testConfig<
+  Resources extends ShopifyRestResources = ShopifyRestResources,
+  Storage extends SessionStorage = SessionStorage,
+>({
+  api,
+  ...overrides
+}: TestConfigOverrides<Resources, Storage> = {}): AppConfigParams<
+  Resources,
+  Storage
+> {
+  return {
+    auth: {
+      path: '/auth',
+      callbackPath: '/auth/callback',
+    },
+    webhooks: {
+      path: '/webhooks',
+    },
+    ...overrides,
+    api: {
+      apiKey: API_KEY,
+      apiSecretKey: API_SECRET_KEY,
+      scopes: ['testScope'],
+      hostScheme: 'https',
+      hostName: new URL(APP_URL).host,
+      apiVersion: LATEST_API_VERSION,
+      isEmbeddedApp: true,
+      ...api,
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import {Session} from '@shopify/shopify-api';
+
+import {SessionNotFoundError} from '../../error';
+import {
+  mockShopifyResponse,
+  shopify,
+  TEST_SHOP,
+} from '../../__tests__/test-helper';
+
+describe('unauthenticated', () => {
+  let session: Session;
+
+  beforeEach(() => {
+    session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      scope: 'testScope',
+      accessToken: 'totally-real-access-token',
+    });
+  });
+
+  describe('admin', () => {
+    it('returns clients for the offline session', async () => {
+      await shopify.config.sessionStorage.storeSession(session);
+      mockShopifyResponse({data: {shop: {name: 'Test shop'}}});
+
+      const {session: loadedSession, admin} =
+        await shopify.unauthenticated.admin(TEST_SHOP);
+
+      expect(loadedSession).toEqual(session);
+
+      const response = await admin.graphql.request('{ shop { name } }');
+      expect(response.data).toEqual({shop: {name: 'Test shop'}});
+      expect(admin.rest).toBeInstanceOf(shopify.api.clients.Rest);
+    });
+
+    it('throws an error if the shop is not installed', async () => {
+      await expect(shopify.unauthenticated.admin(TEST_SHOP)).rejects.toThrow(
+        SessionNotFoundError,
+      );
+    });
+  });
+
+  describe('storefront', () => {
+    it('returns clients for the offline session', async () => {
+      await shopify.config.sessionStorage.storeSession(session);
+
+      const {session: loadedSession, storefront} =
+        await shopify.unauthenticated.storefront(TEST_SHOP);
+
+      expect(loadedSession).toEqual(session);
+      expect(storefront.graphql).toBeInstanceOf(shopify.api.clients.Storefront);
+    });
+
+    it('throws an error if the shop is not installed', async () => {
+      await expect(
+        shopify.unauthenticated.storefront(TEST_SHOP),
+      ).rejects.toThrow(SessionNotFoundError);
+    });
+  });
+});
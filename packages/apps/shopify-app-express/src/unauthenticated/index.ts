@@ -0,0 +1,52 @@
+import {Session, Shopify} from '@shopify/shopify-api';
+
+import {AppConfigInterface} from '../config-types';
+import {ApiAndConfigParams} from '../types';
+import {SessionNotFoundError} from '../error';
+import {createAdminApiContext, createStorefrontApiContext} from '../clients';
+
+import {Unauthenticated} from './types';
+
+export function unauthenticated({
+  api,
+  config,
+}: ApiAndConfigParams): Unauthenticated {
+  return {
+    admin: async (shop: string) => {
+      const session = await loadOfflineSession(api, config, shop, 'admin');
+
+      return {session, admin: createAdminApiContext(api, session)};
+    },
+    storefront: async (shop: string) => {
+      const session = await loadOfflineSession(api, config, shop, 'storefront');
+
+      return {session, storefront: createStorefrontApiContext(api, session)};
+    },
+  };
+}
+
+async function loadOfflineSession(
+  api: Shopify,
+  config: AppConfigInterface,
+  shop: string,
+  context: string,
+): Promise<Session> {
+  config.logger.debug(
+    `Loading offline session for unauthenticated ${context}`,
+    {
+      shop,
+    },
+  );
+
+  const session = await config.sessionStorage.loadSession(
+    api.session.getOfflineId(shop),
+  );
+
+  if (!session) {
+    throw new SessionNotFoundError(
+      `Could not find a session for shop ${shop} when creating unauthenticated ${context} context`,
+    );
+  }
+
+  return session;
+}
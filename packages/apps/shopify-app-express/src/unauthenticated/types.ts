@@ -0,0 +1,38 @@
+import {Session} from '@shopify/shopify-api';
+
+import {AdminApiContext, StorefrontApiContext} from '../clients/types';
+
+export interface UnauthenticatedAdminContext {
+  /**
+   * The offline session for the shop.
+   */
+  session: Session;
+  /**
+   * Clients for the Admin API, authenticated with the shop's offline session.
+   */
+  admin: AdminApiContext;
+}
+
+export interface UnauthenticatedStorefrontContext {
+  /**
+   * The offline session for the shop.
+   */
+  session: Session;
+  /**
+   * Clients for the Storefront API, authenticated with the shop's offline session.
+   */
+  storefront: StorefrontApiContext;
+}
+
+export type GetUnauthenticatedAdminContext = (
+  shop: string,
+) => Promise<UnauthenticatedAdminContext>;
+
+export type GetUnauthenticatedStorefrontContext = (
+  shop: string,
+) => Promise<UnauthenticatedStorefrontContext>;
+
+export interface Unauthenticated {
+  admin: GetUnauthenticatedAdminContext;
+  storefront: GetUnauthenticatedStorefrontContext;
+}
@@ -0,0 +1,212 @@
+import request from 'supertest';
+import express, {Express} from 'express';
+import {
+  DeliveryMethod,
+  LATEST_API_VERSION,
+  LogSeverity,
+  Session,
+} from '@shopify/shopify-api';
+
+import {
+  shopify,
+  TEST_SHOP,
+  TEST_WEBHOOK_ID,
+  validWebhookHeaders,
+} from '../../__tests__/test-helper';
+
+describe('privacy webhooks', () => {
+  let app: Express;
+
+  function mountWebhooks() {
+    app = express();
+    app.post('/webhooks', shopify.processWebhooks({webhookHandlers: {}}));
+  }
+
+  function sendWebhook(topic: string, payload: any) {
+    const body = JSON.stringify(payload);
+
+    return request(app)
+      .post('/webhooks')
+      .set(validWebhookHeaders(topic, body, shopify.api.config.apiSecretKey))
+      .send(body);
+  }
+
+  it('calls the app callbacks with the payload and writes an audit entry', async () => {
+    const callback = jest.fn();
+    const auditLog = jest.fn();
+    shopify.config.webhooks.privacy = {
+      auditLog,
+      customersDataRequest: [callback],
+    };
+    mountWebhooks();
+
+    const payload = {
+      shop_id: 1,
+      shop_domain: TEST_SHOP,
+      orders_requested: [2],
+      customer: {id: 3, email: 'john@example.com', phone: '555-625-1199'},
+      data_request: {id: 4},
+    };
+    await sendWebhook('CUSTOMERS_DATA_REQUEST', payload).expect(200);
+
+    expect(callback).toHaveBeenCalledWith({
+      topic: 'CUSTOMERS_DATA_REQUEST',
+      shop: TEST_SHOP,
+      webhookId: TEST_WEBHOOK_ID,
+      apiVersion: LATEST_API_VERSION,
+      payload,
+    });
+    expect(auditLog).toHaveBeenCalledWith({
+      topic: 'CUSTOMERS_DATA_REQUEST',
+      shop: TEST_SHOP,
+      webhookId: TEST_WEBHOOK_ID,
+      apiVersion: LATEST_API_VERSION,
+      receivedAt: expect.any(String),
+      status: 'completed',
+    });
+  });
+
+  it('logs the audit entry by default', async () => {
+    shopify.config.webhooks.privacy = {};
+    mountWebhooks();
+
+    await sendWebhook('CUSTOMERS_REDACT', {
+      shop_id: 1,
+      shop_domain: TEST_SHOP,
+      customer: {id: 3, email: 'john@example.com', phone: '555-625-1199'},
+      orders_to_redact: [2],
+    }).expect(200);
+
+    expect(shopify.api.config.logger.log as jest.Mock).toHaveBeenCalledWith(
+      LogSeverity.Info,
+      expect.stringContaining('Privacy webhook CUSTOMERS_REDACT completed'),
+    );
+  });
+
+  it('deletes the sessions for the shop on SHOP_REDACT, after the app callbacks', async () => {
+    const session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      accessToken: 'totally-real-access-token',
+    });
+
+    let sessionsInCallback: Session[] = [];
+    shopify.config.webhooks.privacy = {
+      shopRedact: [
+        async ({shop}) => {
+          sessionsInCallback =
+            await shopify.config.sessionStorage.findSessionsByShop!(shop);
+        },
+      ],
+    };
+    mountWebhooks();
+
+    await shopify.config.sessionStorage.storeSession(session);
+
+    await sendWebhook('SHOP_REDACT', {
+      shop_id: 1,
+      shop_domain: TEST_SHOP,
+    }).expect(200);
+
+    expect(sessionsInCallback).toHaveLength(1);
+    expect(
+      await shopify.config.sessionStorage.findSessionsByShop!(TEST_SHOP),
+    ).toEqual([]);
+  });
+
+  it('records failed callbacks and fails the request so Shopify retries it', async () => {
+    const auditLog = jest.fn();
+    shopify.config.webhooks.privacy = {
+      auditLog,
+      customersRedact: [
+        async () => {
+          throw new Error('Could not erase data');
+        },
+      ],
+    };
+    mountWebhooks();
+
+    await sendWebhook('CUSTOMERS_REDACT', {
+      shop_id: 1,
+      shop_domain: TEST_SHOP,
+      customer: {id: 3, email: 'john@example.com', phone: '555-625-1199'},
+      orders_to_redact: [],
+    }).expect(500);
+
+    expect(auditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        topic: 'CUSTOMERS_REDACT',
+        status: 'failed',
+        error: 'Error: Could not erase data',
+      }),
+    );
+  });
+
+  it('records values thrown by callbacks that are not errors', async () => {
+    const auditLog = jest.fn();
+    shopify.config.webhooks.privacy = {
+      auditLog,
+      customersRedact: [
+        async () => {
+          // eslint-disable-next-line no-throw-literal
+          throw 'Could not erase data';
+        },
+      ],
+    };
+    mountWebhooks();
+
+    await sendWebhook('CUSTOMERS_REDACT', {
+      shop_id: 1,
+      shop_domain: TEST_SHOP,
+      customer: {id: 3, email: 'john@example.com', phone: '555-625-1199'},
+      orders_to_redact: [],
+    }).expect(500);
+
+    expect(auditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'failed',
+        error: 'Could not erase data',
+      }),
+    );
+  });
+
+  it('does not handle privacy webhooks unless they are configured', async () => {
+    const session = new Session({
+      id: `offline_${TEST_SHOP}`,
+      shop: TEST_SHOP,
+      state: '123-this-is-a-state',
+      isOnline: false,
+      accessToken: 'totally-real-access-token',
+    });
+    const callback = jest.fn();
+
+    delete shopify.config.webhooks.privacy;
+    app = express();
+    app.post(
+      '/webhooks',
+      shopify.processWebhooks({
+        webhookHandlers: {
+          SHOP_REDACT: {
+            deliveryMethod: DeliveryMethod.Http,
+            callbackUrl: '/webhooks',
+            callback,
+          },
+        },
+      }),
+    );
+
+    await shopify.config.sessionStorage.storeSession(session);
+
+    await sendWebhook('SHOP_REDACT', {
+      shop_id: 1,
+      shop_domain: TEST_SHOP,
+    }).expect(200);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(
+      await shopify.config.sessionStorage.findSessionsByShop!(TEST_SHOP),
+    ).toEqual([session]);
+  });
+});
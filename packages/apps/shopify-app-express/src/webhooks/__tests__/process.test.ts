@@ -4,6 +4,8 @@ import {
   DeliveryMethod,
   LATEST_API_VERSION,
   LogSeverity,
+  MemoryWebhookIdempotencyStore,
+  MemoryWebhookJobQueue,
 } from '@shopify/shopify-api';
 
 import {
@@ -56,6 +58,7 @@ describe('process', () => {
       TEST_WEBHOOK_ID,
       LATEST_API_VERSION,
       undefined,
+      {payload: {'test-body-received': true}},
     );
 
     expect(shopify.api.config.logger.log as jest.Mock).toHaveBeenCalledWith(
@@ -131,10 +134,59 @@ describe('process', () => {
       TEST_WEBHOOK_ID,
       LATEST_API_VERSION,
       undefined,
+      {payload: {'test-body-received': true}},
     );
     expect(shopify.api.config.logger.log as jest.Mock).toHaveBeenCalledWith(
       LogSeverity.Error,
       expect.stringContaining('test-error'),
     );
   });
+
+  it('skips the handler for repeated deliveries with an idempotency store', async () => {
+    shopify.config.webhooks.idempotencyStore =
+      new MemoryWebhookIdempotencyStore();
+    const body = JSON.stringify({'test-body-received': true});
+    const headers = validWebhookHeaders(
+      'TEST_TOPIC',
+      body,
+      shopify.api.config.apiSecretKey,
+    );
+
+    await request(app).post('/webhooks').set(headers).send(body).expect(200);
+    await request(app).post('/webhooks').set(headers).send(body).expect(200);
+
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('queues the webhook instead of calling the handler with a job queue', async () => {
+    const jobQueue = new MemoryWebhookJobQueue();
+    shopify.config.webhooks.jobQueue = jobQueue;
+    const body = JSON.stringify({'test-body-received': true});
+
+    await request(app)
+      .post('/webhooks')
+      .set(
+        validWebhookHeaders(
+          'TEST_TOPIC',
+          body,
+          shopify.api.config.apiSecretKey,
+        ),
+      )
+      .send(body)
+      .expect(200);
+
+    expect(mockHandler).not.toHaveBeenCalled();
+
+    await shopify.api.webhooks.createWorker({jobQueue}).runPendingJobs();
+
+    expect(mockHandler).toHaveBeenCalledWith(
+      'TEST_TOPIC',
+      TEST_SHOP,
+      body,
+      TEST_WEBHOOK_ID,
+      LATEST_API_VERSION,
+      undefined,
+      {payload: {'test-body-received': true}},
+    );
+  });
 });
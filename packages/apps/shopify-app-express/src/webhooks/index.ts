@@ -1,5 +1,5 @@
 import express, {Request, Response} from 'express';
-import {AddHandlersParams, DeliveryMethod, Shopify} from '@shopify/shopify-api';
+import {DeliveryMethod, Shopify} from '@shopify/shopify-api';
 
 import {AppConfigInterface} from '../config-types';
 import {ApiAndConfigParams} from '../types';
@@ -12,6 +12,7 @@ import {
   WebhookHandlersParam,
 } from './types';
 import {process} from './process';
+import {privacyWebhookHandlers} from './privacy';
 
 export function processWebhooks({
   api,
@@ -39,7 +40,7 @@ function mountWebhooks(
   config: AppConfigInterface,
   handlers: WebhookHandlersParam,
 ) {
-  api.webhooks.addHandlers(handlers as AddHandlersParams);
+  api.webhooks.addHandlers(handlers);
 
   // Add our custom app uninstalled webhook
   const appInstallations = new AppInstallations(config);
@@ -51,4 +52,12 @@ function mountWebhooks(
       callback: deleteAppInstallationHandler(appInstallations, config),
     },
   });
+
+  // Add the mandatory privacy webhooks, which run the app's callbacks and audit every request. Apps that don't
+  // configure them may already handle these topics themselves.
+  if (config.webhooks.privacy) {
+    api.webhooks.addHandlers(
+      privacyWebhookHandlers(config, config.webhooks.privacy),
+    );
+  }
 }
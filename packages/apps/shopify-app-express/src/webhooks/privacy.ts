@@ -0,0 +1,104 @@
+import {
+  DeliveryMethod,
+  HttpWebhookHandlerWithCallback,
+} from '@shopify/shopify-api';
+
+import {
+  AppConfigInterface,
+  PrivacyWebhookAuditEntry,
+  PrivacyWebhookCallback,
+  PrivacyWebhooksConfigInterface,
+} from '../config-types';
+import {AppInstallations} from '../app-installations';
+
+import {WebhookHandlersParam} from './types';
+
+/**
+ * Builds the handlers for the mandatory privacy webhooks. Each request runs the app's callbacks for its topic and
+ * writes an audit log entry, and `SHOP_REDACT` also deletes every session for the shop.
+ */
+export function privacyWebhookHandlers(
+  config: AppConfigInterface,
+  privacy: PrivacyWebhooksConfigInterface,
+): WebhookHandlersParam {
+  const appInstallations = new AppInstallations(config);
+
+  return {
+    CUSTOMERS_DATA_REQUEST: privacyWebhookHandler(
+      config,
+      privacy.customersDataRequest ?? [],
+    ),
+    CUSTOMERS_REDACT: privacyWebhookHandler(
+      config,
+      privacy.customersRedact ?? [],
+    ),
+    SHOP_REDACT: privacyWebhookHandler(config, [
+      ...(privacy.shopRedact ?? []),
+      async ({shop}) => {
+        config.logger.info('Deleting shop sessions for SHOP_REDACT', {shop});
+
+        await appInstallations.delete(shop);
+      },
+    ]),
+  };
+}
+
+function privacyWebhookHandler<Payload>(
+  config: AppConfigInterface,
+  callbacks: PrivacyWebhookCallback<Payload>[],
+): HttpWebhookHandlerWithCallback<Payload> {
+  return {
+    deliveryMethod: DeliveryMethod.Http,
+    callbackUrl: config.webhooks.path,
+    callback: async (
+      topic,
+      shop,
+      _body,
+      webhookId,
+      apiVersion: string,
+      _subTopic,
+      context,
+    ) => {
+      const payload = context?.payload as Payload;
+      const entry = {
+        topic,
+        shop,
+        webhookId,
+        apiVersion,
+        receivedAt: new Date().toISOString(),
+      };
+
+      try {
+        for (const callback of callbacks) {
+          await callback({topic, shop, webhookId, apiVersion, payload});
+        }
+      } catch (error) {
+        await writeAuditLog(config, {
+          ...entry,
+          status: 'failed',
+          error: `${error}`,
+        });
+        throw error;
+      }
+
+      await writeAuditLog(config, {...entry, status: 'completed'});
+    },
+  };
+}
+
+async function writeAuditLog(
+  config: AppConfigInterface,
+  entry: PrivacyWebhookAuditEntry,
+) {
+  const auditLog = config.webhooks.privacy?.auditLog;
+  if (auditLog) {
+    await auditLog(entry);
+    return;
+  }
+
+  const {topic, shop, status, ...context} = entry;
+  config.logger.info(`Privacy webhook ${topic} ${status}`, {
+    shop,
+    ...context,
+  });
+}
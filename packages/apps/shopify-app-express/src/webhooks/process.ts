@@ -11,6 +11,8 @@ export async function process({
       rawBody: req.body,
       rawRequest: req,
       rawResponse: res,
+      idempotencyStore: config.webhooks.idempotencyStore,
+      jobQueue: config.webhooks.jobQueue,
     });
 
     config.logger.info('Webhook processed, returned status code 200');
@@ -1,12 +1,9 @@
 import {Request, RequestHandler, Response} from 'express';
-import {Shopify, WebhookHandler} from '@shopify/shopify-api';
+import {AddHandlersParams, Shopify} from '@shopify/shopify-api';
 
 import {AppConfigInterface} from '../config-types';
 
-export type WebhookHandlersParam = Record<
-  string,
-  WebhookHandler | WebhookHandler[]
->;
+export type WebhookHandlersParam = AddHandlersParams;
 
 export interface WebhookProcessParams {
   req: Request;